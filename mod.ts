@@ -7,9 +7,144 @@
  *  - `Option` provides a lovely way to express functions that may return nothing.
  *  - `Result` lets you tackle errors using with an easy to use functional pattern.
  *
+ * Both print as `Some(5)`, `None`, `Ok({ id: 1 })` or `Err(TypeError: bad input)` in `console.log`, under Deno or Node.
+ *
+ * `Option.isOption` and `Result.isResult` recognise values from any copy of this library, such as the npm and deno.land builds loaded side by side.
+ *
+ * `AsyncResult` and `AsyncOption` wrap promises of either, so asynchronous code can be chained with a single `await`.
+ *
+ * Both serialize to a tagged JSON format with `toJSON`, and are rebuilt with `fromJSON` or a `reviver`.
+ *
+ * `expose` and `connect` call functions returning Results across a `MessagePort` or `Worker`, keeping them intact.
+ *
+ * `defineError` creates tagged Error classes, which `Result.matchErr` can switch on exhaustively.
+ *
+ * `Decoder` turns `unknown` input, such as parsed JSON, into typed Results.
+ *
+ * `@resultify` and `@resultifyAsync` decorate methods, or whole classes, so that anything they throw becomes an Err.
+ *
+ * `equal`, `compare` and `hashKey` compare Options and Results structurally, and `ValueMap` and `ValueSet` use them as keys.
+ *
+ * `Validation` combines many Results while collecting every error, rather than stopping at the first.
+ *
+ * `Result.enableMustUse` reports Errs which are garbage collected without being handled, with the stack that created them.
+ *
  */
 
 import { Result, Ok, Err } from "./src/result.ts";
 import { Option, Some, None, none } from "./src/option.ts";
+import { AsyncResult } from "./src/async_result.ts";
+import { AsyncOption } from "./src/async_option.ts";
+import { Validation, ValidationError } from "./src/validation.ts";
+import {
+  ErrorRegistry,
+  errorRegistry,
+  reviver,
+  revive,
+  serializeError,
+  deserializeError,
+  tagKey,
+} from "./src/json.ts";
+import { expose, connect } from "./src/rpc.ts";
+import { defineError } from "./src/tagged_error.ts";
+import { Decoder, DecodeError } from "./src/decoder.ts";
+import { resultify, resultifyAsync } from "./src/decorators.ts";
+import { RetryError, realClock } from "./src/retry.ts";
+import { TimeoutError, AbortError } from "./src/cancel.ts";
+import { equal, compare, hashKey, ValueMap, ValueSet } from "./src/equality.ts";
 
-export { Result, Ok, Err, Option, Some, None, none };
+export {
+  Result,
+  Ok,
+  Err,
+  Option,
+  Some,
+  None,
+  none,
+  AsyncResult,
+  AsyncOption,
+  Validation,
+  ValidationError,
+  ErrorRegistry,
+  errorRegistry,
+  reviver,
+  revive,
+  serializeError,
+  deserializeError,
+  tagKey,
+  expose,
+  connect,
+  defineError,
+  Decoder,
+  DecodeError,
+  resultify,
+  resultifyAsync,
+  RetryError,
+  realClock,
+  TimeoutError,
+  AbortError,
+  equal,
+  compare,
+  hashKey,
+  ValueMap,
+  ValueSet,
+};
+export type {
+  OkResult,
+  ErrResult,
+  OkOf,
+  ErrOf,
+  OkTuple,
+  OkRecord,
+  ReportOptions,
+  ErrMessage,
+  NotStringErr,
+} from "./src/result.ts";
+export type { MustUseOptions, UnhandledErr } from "./src/must_use.ts";
+export type {
+  SomeOption,
+  NoneOption,
+  SomeOf,
+  SomeTuple,
+  SomeRecord,
+  PropOf,
+} from "./src/option.ts";
+export type {
+  Arm,
+  Case,
+  Cases,
+  Handler,
+  OptionArms,
+  ResultArms,
+} from "./src/match.ts";
+export type { Failure, Issue, IssueOf, Path } from "./src/validation.ts";
+export type {
+  ErrorClass,
+  ErrorJSON,
+  ErrJSON,
+  OptionJSON,
+  ResultJSON,
+} from "./src/json.ts";
+export type {
+  Endpoint,
+  Procedures,
+  Remote,
+  RemoteResult,
+  RpcOptions,
+} from "./src/rpc.ts";
+export type {
+  ErrArms,
+  ErrorFields,
+  TaggedError,
+  TaggedErrorClass,
+  TagOf,
+} from "./src/tagged_error.ts";
+export type { DecodedOf } from "./src/decoder.ts";
+export type {
+  ErrorMapper,
+  ResultifyAsyncDecorator,
+  ResultifyDecorator,
+} from "./src/decorators.ts";
+export type { Backoff, Clock, RetryOptions } from "./src/retry.ts";
+export type { FromAsyncOptions } from "./src/cancel.ts";
+export type { Comparator, Equality, ResultOrder } from "./src/equality.ts";
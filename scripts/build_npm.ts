@@ -51,7 +51,7 @@ const release = <ReleaseType>args.release;
 packageJSON.version = versionHandler(version, release);
 
 await build({
-  entryPoints: ["./mod.ts"],
+  entryPoints: ["./mod.ts", { name: "./testing", path: "./testing.ts" }],
   outDir: "./npm",
   shims: {
     deno: true,
@@ -0,0 +1,143 @@
+import { OptionArms } from "./match.ts";
+import { Option } from "./option.ts";
+
+/**
+ * An awaitable, chainable wrapper around a `Promise<Option<T>>`.
+ *
+ * Every method accepts either synchronous or asynchronous callbacks and returns
+ * a new AsyncOption, so chains only need a single `await` at the end.
+ *
+ * @example
+ * ```ts
+ * const city = await AsyncOption.from(() => findUser(id))
+ *   .andThen((user) => findAddress(user))
+ *   .map((address) => address.city)
+ *   .unwrapOr("Unknown");
+ * ```
+ */
+export class AsyncOption<T> implements PromiseLike<Option<T>> {
+  private promise: Promise<Option<T>>;
+
+  /**
+   * A constructor for an AsyncOption.
+   *
+   * @param {Option<T> | PromiseLike<Option<T>>} input An Option, or a promise that resolves to one.
+   */
+  constructor(input: Option<T> | PromiseLike<Option<T>>) {
+    this.promise = Promise.resolve(input);
+  }
+
+  /**
+   * Converts AsyncOption into a String for display purposes.
+   */
+  get [Symbol.toStringTag]() {
+    return `AsyncOption`;
+  }
+
+  /**
+   * Thenable support for AsyncOption, resolving to the underlying Option.
+   *
+   * @param {Function} onfulfilled A callback for the resolved Option.
+   * @param {Function} onrejected A callback for a rejection.
+   * @returns {Promise<A | B>}
+   */
+  then<A = Option<T>, B = never>(
+    onfulfilled?: ((value: Option<T>) => A | PromiseLike<A>) | null | undefined,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null | undefined
+  ): Promise<A | B> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Maps an AsyncOption<T> to AsyncOption<U> by applying a function to a contained Some value, leaving None values untouched.
+   *
+   * @param {Function} fn A mapping function.
+   * @returns {AsyncOption<U>}
+   */
+  map<U>(fn: (input: T) => U | PromiseLike<U>): AsyncOption<U> {
+    return new AsyncOption<U>(
+      this.promise.then(async (option) => {
+        if (option.isSome()) {
+          return new Option<U>(await fn(option.unwrap()));
+        }
+
+        return option as unknown as Option<U>;
+      })
+    );
+  }
+
+  /**
+   * Calls `fn` with the contained Some value and returns its Option, leaving None values untouched.
+   *
+   * @param {Function} fn A function returning an Option, a promise of one or an AsyncOption.
+   * @returns {AsyncOption<U>}
+   */
+  andThen<U>(
+    fn: (input: T) => Option<U> | PromiseLike<Option<U>>
+  ): AsyncOption<U> {
+    return new AsyncOption<U>(
+      this.promise.then((option) => {
+        if (option.isSome()) {
+          return fn(option.unwrap());
+        }
+
+        return option as unknown as Option<U>;
+      })
+    );
+  }
+
+  /**
+   * Returns the Option computed by `fn` if the Option is None, otherwise returns self.
+   *
+   * @param {Function} fn A function returning an Option, a promise of one or an AsyncOption.
+   * @returns {AsyncOption<T>}
+   */
+  orElse(fn: () => Option<T> | PromiseLike<Option<T>>): AsyncOption<T> {
+    return new AsyncOption<T>(
+      this.promise.then((option) => {
+        if (option.isSome()) {
+          return option;
+        }
+
+        return fn();
+      })
+    );
+  }
+
+  /**
+   * Resolves to the contained Some value or a provided default.
+   *
+   * @param {T} fallback A default value to return if contained value is None.
+   * @returns {Promise<T>}
+   */
+  unwrapOr(fallback: T): Promise<T> {
+    return this.promise.then((option) => option.unwrapOr(fallback));
+  }
+
+  /**
+   * Resolves to the output of whichever arm matches the contained value.
+   *
+   * @param {OptionArms<T, U | PromiseLike<U>>} arms An arm for each variant, see `Option.match`.
+   * @returns {Promise<U>}
+   *
+   * @example
+   * ```ts
+   * const greeting = await AsyncOption.from(() => findUser(id))
+   *   .match({ Some: (user) => `Hi ${user.name}`, None: () => "Hi stranger" });
+   * ```
+   */
+  match<U>(arms: OptionArms<T, U | PromiseLike<U>>): Promise<U> {
+    return this.promise.then((option) => option.match(arms));
+  }
+
+  /**
+   * Run an asynchronous closure and convert it into an AsyncOption.
+   * If the closure resolves to `null` or `undefined`, an AsyncOption containing None will be returned.
+   *
+   * @param {Function} fn The asynchronous closure to run.
+   * @returns {AsyncOption<T>} The result of the closure.
+   */
+  static from<T>(fn: () => Promise<T | null | undefined>): AsyncOption<T> {
+    return new AsyncOption<T>(Option.fromAsync(fn));
+  }
+}
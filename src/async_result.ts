@@ -0,0 +1,178 @@
+import { AbortError, FromAsyncOptions, TimeoutError } from "./cancel.ts";
+import { ResultArms } from "./match.ts";
+import { Result } from "./result.ts";
+
+/**
+ * An awaitable, chainable wrapper around a `Promise<Result<T, E>>`.
+ *
+ * Every method accepts either synchronous or asynchronous callbacks and returns
+ * a new AsyncResult, so chains only need a single `await` at the end.
+ *
+ * @example
+ * ```ts
+ * const user = await AsyncResult.from(() => fetchUser(id))
+ *   .map((user) => user.name)
+ *   .unwrapOr("Anonymous");
+ * ```
+ */
+export class AsyncResult<T, E = Error> implements PromiseLike<Result<T, E>> {
+  private promise: Promise<Result<T, E>>;
+
+  /**
+   * A constructor for an AsyncResult.
+   *
+   * @param {Result<T, E> | PromiseLike<Result<T, E>>} input A Result, or a promise that resolves to one.
+   */
+  constructor(input: Result<T, E> | PromiseLike<Result<T, E>>) {
+    this.promise = Promise.resolve(input);
+  }
+
+  /**
+   * Converts AsyncResult into a String for display purposes.
+   */
+  get [Symbol.toStringTag]() {
+    return `AsyncResult`;
+  }
+
+  /**
+   * Thenable support for AsyncResult, resolving to the underlying Result.
+   *
+   * @param {Function} onfulfilled A callback for the resolved Result.
+   * @param {Function} onrejected A callback for a rejection.
+   * @returns {Promise<A | B>}
+   */
+  then<A = Result<T, E>, B = never>(
+    onfulfilled?:
+      | ((value: Result<T, E>) => A | PromiseLike<A>)
+      | null
+      | undefined,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null | undefined
+  ): Promise<A | B> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Maps an AsyncResult<T, E> to AsyncResult<U, E> by applying a function to a contained Ok value, leaving an Error value untouched.
+   *
+   * @param {Function} fn A mapping function.
+   * @returns {AsyncResult<U, E>}
+   */
+  map<U>(fn: (input: T) => U | PromiseLike<U>): AsyncResult<U, E> {
+    return new AsyncResult<U, E>(
+      this.promise.then(async (result) => {
+        if (result.isOk()) {
+          return new Result<U, E>(await fn(result.unwrap()), "Ok");
+        }
+
+        return result as unknown as Result<U, E>;
+      })
+    );
+  }
+
+  /**
+   * Maps an AsyncResult<T, E> to AsyncResult<T, U> by applying a function to a contained Error value, leaving an Ok value untouched.
+   *
+   * @param {Function} fn A mapping function.
+   * @returns {AsyncResult<T, U>}
+   */
+  mapErr<U>(fn: (input: E) => U | PromiseLike<U>): AsyncResult<T, U> {
+    return new AsyncResult<T, U>(
+      this.promise.then(async (result) => {
+        if (result.isOk()) {
+          return result as unknown as Result<T, U>;
+        }
+
+        return new Result<T, U>(await fn(result.unwrapErr()), "Err");
+      })
+    );
+  }
+
+  /**
+   * Calls `fn` with the contained Ok value and returns its Result, leaving an Error value untouched.
+   *
+   * @param {Function} fn A function returning a Result, a promise of one or an AsyncResult.
+   * @returns {AsyncResult<U, E | F>}
+   */
+  andThen<U, F = E>(
+    fn: (input: T) => Result<U, F> | PromiseLike<Result<U, F>>
+  ): AsyncResult<U, E | F> {
+    return new AsyncResult<U, E | F>(
+      this.promise.then((result) => {
+        if (result.isOk()) {
+          return fn(result.unwrap());
+        }
+
+        return result as unknown as Result<U, E>;
+      })
+    );
+  }
+
+  /**
+   * Calls `fn` with the contained Error value and returns its Result, leaving an Ok value untouched.
+   *
+   * @param {Function} fn A function returning a Result, a promise of one or an AsyncResult.
+   * @returns {AsyncResult<T, F>}
+   */
+  orElse<F>(
+    fn: (input: E) => Result<T, F> | PromiseLike<Result<T, F>>
+  ): AsyncResult<T, F> {
+    return new AsyncResult<T, F>(
+      this.promise.then((result) => {
+        if (result.isOk()) {
+          return result as unknown as Result<T, F>;
+        }
+
+        return fn(result.unwrapErr());
+      })
+    );
+  }
+
+  /**
+   * Resolves to the contained Ok value or a provided default.
+   *
+   * @param {T} fallback A default value to return if contained value is an Error.
+   * @returns {Promise<T>}
+   */
+  unwrapOr(fallback: T): Promise<T> {
+    return this.promise.then((result) => result.unwrapOr(fallback));
+  }
+
+  /**
+   * Resolves to the output of whichever arm matches the contained value.
+   *
+   * @param {ResultArms<T, E, U | PromiseLike<U>>} arms An arm for each variant, see `Result.match`.
+   * @returns {Promise<U>}
+   *
+   * @example
+   * ```ts
+   * const message = await AsyncResult.from(() => load())
+   *   .match({ Ok: (data) => `Loaded ${data.length}`, Err: (e) => e.message });
+   * ```
+   */
+  match<U>(arms: ResultArms<T, E, U | PromiseLike<U>>): Promise<U> {
+    return this.promise.then((result) => result.match(arms));
+  }
+
+  /**
+   * Run an asynchronous closure in a `try`/`catch` and convert it into an AsyncResult.
+   *
+   * @param {Function} fn The asynchronous closure to run
+   * @param {FromAsyncOptions<E>} options Options for cancelling the closure, see `Result.fromAsync`
+   * @returns {AsyncResult<T, Error>} The Result of the closure
+   */
+  static from<T>(
+    fn: (signal: AbortSignal) => Promise<T>
+  ): AsyncResult<T, Error>;
+  static from<T, E = Error>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: FromAsyncOptions<E>
+  ): AsyncResult<T, E | TimeoutError | AbortError>;
+  static from<T, E>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: FromAsyncOptions<E>
+  ): AsyncResult<T, unknown> {
+    return new AsyncResult<T, unknown>(
+      options ? Result.fromAsync(fn, options) : Result.fromAsync(fn)
+    );
+  }
+}
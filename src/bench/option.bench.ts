@@ -0,0 +1,97 @@
+import { None, Option, Some } from "../option.ts";
+
+const SIZE = 100_000;
+
+const values: Array<number | undefined> = Array.from(
+  { length: SIZE },
+  (_, index) => (index % 3 ? index : undefined)
+);
+
+const options = values.map((value) => Option.fromNullable(value));
+
+const present = values.filter((value) => value !== undefined);
+const somes = options.filter((option) => option.isSome());
+
+let input = 0;
+
+function lookup(key: number): number | undefined {
+  return key % 3 ? key : undefined;
+}
+
+Deno.bench({
+  name: "nullable",
+  group: "construct",
+  baseline: true,
+  fn: () => {
+    if (lookup(++input) === null) throw new Error("Unreachable");
+  },
+});
+
+Deno.bench({
+  name: "Some",
+  group: "construct",
+  fn: () => {
+    Some(++input).isSome();
+  },
+});
+
+Deno.bench({
+  name: "None",
+  group: "construct",
+  fn: () => {
+    None().isNone();
+  },
+});
+
+Deno.bench({
+  name: "Option.fromNullable",
+  group: "construct",
+  fn: () => {
+    Option.fromNullable(lookup(++input)).isSome();
+  },
+});
+
+Deno.bench({
+  name: "nullable",
+  group: "chain",
+  baseline: true,
+  fn: () => {
+    const value = lookup(++input);
+    const doubled = value === undefined ? undefined : lookup(value * 2);
+    const output = doubled === undefined ? 0 : doubled + 1;
+    if (output < 0) throw new Error("Unreachable");
+  },
+});
+
+Deno.bench({
+  name: "map, andThen and unwrapOr",
+  group: "chain",
+  fn: () => {
+    const output = Option.fromNullable(lookup(++input))
+      .andThen((value) => Option.fromNullable(lookup(value * 2)))
+      .map((value) => value + 1)
+      .unwrapOr(0);
+    if (output < 0) throw new Error("Unreachable");
+  },
+});
+
+Deno.bench({
+  name: "loop",
+  group: `collect ${SIZE}`,
+  baseline: true,
+  fn: () => {
+    const some: Array<number> = [];
+    for (const value of present) {
+      if (value === undefined) break;
+      some.push(value);
+    }
+  },
+});
+
+Deno.bench({
+  name: "Option.collect",
+  group: `collect ${SIZE}`,
+  fn: () => {
+    Option.collect(somes);
+  },
+});
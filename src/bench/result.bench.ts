@@ -0,0 +1,135 @@
+import { Err, Ok, Result } from "../result.ts";
+
+const SIZE = 100_000;
+
+function parse(input: number): number {
+  if (input % 7 === 0) throw new Error(`${input} is divisible by 7`);
+  return input;
+}
+
+function parseResult(input: number): Result<number, Error> {
+  if (input % 7 === 0) return Err(new Error(`${input} is divisible by 7`));
+  return Ok(input);
+}
+
+const results: Array<Result<number, string>> = Array.from(
+  { length: SIZE },
+  (_, index) =>
+    index % 2
+      ? new Result<number, string>(index, "Ok")
+      : new Result<number, string>(`${index}`, "Err")
+);
+
+const oks = results.filter((result) => result.isOk());
+const numbers = oks.map((result) => result.unwrap());
+
+let input = 0;
+
+Deno.bench({
+  name: "try/catch",
+  group: "construct",
+  baseline: true,
+  fn: () => {
+    try {
+      parse(++input);
+    } catch {
+      // Ignored
+    }
+  },
+});
+
+Deno.bench({
+  name: "Ok and Err",
+  group: "construct",
+  fn: () => {
+    parseResult(++input).isOk();
+  },
+});
+
+Deno.bench({
+  name: "Ok",
+  group: "construct",
+  fn: () => {
+    Ok(++input).isOk();
+  },
+});
+
+Deno.bench({
+  name: "try/catch",
+  group: "chain",
+  baseline: true,
+  fn: () => {
+    let output: number;
+    try {
+      output = parse(parse(++input) * 2 + 1) + 1;
+    } catch {
+      output = 0;
+    }
+    if (output < 0) throw new Error("Unreachable");
+  },
+});
+
+Deno.bench({
+  name: "map, andThen and unwrapOr",
+  group: "chain",
+  fn: () => {
+    const output = parseResult(++input)
+      .map((value) => value * 2 + 1)
+      .andThen(parseResult)
+      .map((value) => value + 1)
+      .unwrapOr(0);
+    if (output < 0) throw new Error("Unreachable");
+  },
+});
+
+Deno.bench({
+  name: "isOk and unwrap",
+  group: "chain",
+  fn: () => {
+    const res = parseResult(++input);
+    if (res.isOk() && res.unwrap() < 0) throw new Error("Unreachable");
+  },
+});
+
+Deno.bench({
+  name: "loop",
+  group: `partition ${SIZE}`,
+  baseline: true,
+  fn: () => {
+    const ok: Array<number> = [];
+    const err: Array<string> = [];
+    for (const result of results) {
+      if (result.isOk()) ok.push(result.unwrap());
+      else err.push(result.unwrapErr());
+    }
+  },
+});
+
+Deno.bench({
+  name: "Result.partition",
+  group: `partition ${SIZE}`,
+  fn: () => {
+    Result.partition(results);
+  },
+});
+
+Deno.bench({
+  name: "loop",
+  group: `collect ${SIZE / 2}`,
+  baseline: true,
+  fn: () => {
+    const values: Array<number> = [];
+    for (const value of numbers) {
+      if (value < 0) break;
+      values.push(value);
+    }
+  },
+});
+
+Deno.bench({
+  name: "Result.collect",
+  group: `collect ${SIZE / 2}`,
+  fn: () => {
+    Result.collect(oks);
+  },
+});
@@ -0,0 +1,34 @@
+/**
+ * Shared plumbing for recognising Options and Results across copies of this library.
+ *
+ * `instanceof` only recognises values created by the same copy of a class, which fails
+ * when the deno.land and npm builds are loaded side by side, or when values cross an
+ * iframe or `vm` context. Every Option and Result instead carries its variant under a
+ * key from the global symbol registry, which is shared by every copy and every realm.
+ *
+ * @module
+ */
+
+/**
+ * The globally registered key of the variant carried by every Option and Result.
+ */
+export const variantKey: unique symbol = Symbol.for("optionals.variant");
+
+/**
+ * The variants an Option or a Result can take.
+ */
+export type Variant = "Some" | "None" | "Ok" | "Err";
+
+/**
+ * Returns the variant of an Option or a Result from any copy of this library, or `undefined` for anything else.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {Variant | undefined}
+ */
+export function variantOf(value: unknown): Variant | undefined {
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+
+  return (value as { [variantKey]?: Variant })[variantKey];
+}
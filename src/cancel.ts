@@ -0,0 +1,104 @@
+import { Result } from "./result.ts";
+import { defineError } from "./tagged_error.ts";
+
+/**
+ * The Err of work which ran longer than its `timeout`.
+ */
+export const TimeoutError = defineError("TimeoutError", (ms: number) => ({
+  ms,
+  message: `Timed out after ${ms}ms`,
+}));
+export type TimeoutError = InstanceType<typeof TimeoutError>;
+
+/**
+ * The Err of work cancelled through an AbortSignal, caused by the signal's `reason`.
+ */
+export const AbortError = defineError("AbortError", (reason?: unknown) => ({
+  reason,
+  cause: reason,
+  message: "The operation was aborted",
+}));
+export type AbortError = InstanceType<typeof AbortError>;
+
+/**
+ * Options for bounding and cancelling `Result.fromAsync`.
+ */
+export interface FromAsyncOptions<E = Error> {
+  /**
+   * Cancel the work with a TimeoutError after this many milliseconds.
+   */
+  timeout?: number;
+  /**
+   * Cancel the work with an AbortError when this signal aborts.
+   */
+  signal?: AbortSignal;
+  /**
+   * Convert errors thrown by the work into the Err type, leaving cancellations untouched.
+   */
+  mapErr?: (error: unknown) => E;
+}
+
+/**
+ * Run an asynchronous closure which can be timed out or aborted, converting it into a Result.
+ *
+ * The closure receives an AbortSignal which aborts on cancellation, with the
+ * TimeoutError or AbortError as its `reason`, so that it can stop and clean up.
+ * Like `Result.wrap`, anything thrown by `mapErr` is not caught, and rejects the
+ * returned promise instead.
+ *
+ * @param {Function} fn The asynchronous closure to run.
+ * @param {FromAsyncOptions<E>} options Options for cancelling the closure.
+ * @returns {Promise<Result<T, E | TimeoutError | AbortError>>}
+ */
+export function withCancellation<T, E>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: FromAsyncOptions<E>
+): Promise<Result<T, E | TimeoutError | AbortError>> {
+  const { timeout, signal, mapErr } = options;
+  const controller = new AbortController();
+
+  if (signal?.aborted) {
+    return Promise.resolve(
+      new Result<T, AbortError>(new AbortError(signal.reason), "Err")
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    };
+
+    const finish = (result: Result<T, E | TimeoutError | AbortError>) => {
+      cleanup();
+      resolve(result);
+    };
+
+    const cancel = (error: TimeoutError | AbortError) => {
+      controller.abort(error);
+      finish(new Result<T, TimeoutError | AbortError>(error, "Err"));
+    };
+
+    const abort = () => cancel(new AbortError(signal?.reason));
+
+    signal?.addEventListener("abort", abort, { once: true });
+    if (timeout !== undefined) {
+      timer = setTimeout(() => cancel(new TimeoutError(timeout)), timeout);
+    }
+
+    Result.fromAsync(() => fn(controller.signal)).then((result) => {
+      if (controller.signal.aborted) return;
+
+      try {
+        finish(
+          result.mapErr((error) => (mapErr ? mapErr(error) : (error as E)))
+        );
+      } catch (e: unknown) {
+        cleanup();
+        reject(e);
+      }
+    });
+  });
+}
@@ -0,0 +1,300 @@
+import { None, Option, Some } from "./option.ts";
+import { Result } from "./result.ts";
+import { Issue, Path, Validation, ValidationError } from "./validation.ts";
+
+/**
+ * The type produced by a Decoder.
+ */
+export type DecodedOf<D> = D extends Decoder<infer T> ? T : never;
+
+/**
+ * Format a path as an accessor expression, such as `$.items[3].price`.
+ */
+function formatPath(path: Path): string {
+  return path
+    .map((key) =>
+      typeof key === "number"
+        ? `[${key}]`
+        : /^[A-Za-z_$][\w$]*$/.test(key)
+        ? `.${key}`
+        : `[${JSON.stringify(key)}]`
+    )
+    .reduce((expression, accessor) => expression + accessor, "$");
+}
+
+/**
+ * Every path of an input which could not be decoded, and what was expected there.
+ *
+ * @example
+ * ```ts
+ * order.decode({ items: [{ price: "1" }] }).unwrapErr().message
+ * // => "$.items[0].price: expected number"
+ * ```
+ */
+export class DecodeError extends ValidationError<TypeError> {
+  /**
+   * A constructor for a DecodeError.
+   *
+   * @param {ReadonlyArray<Issue<TypeError>>} issues The paths which could not be decoded.
+   */
+  constructor(issues: ReadonlyArray<Issue<TypeError>>) {
+    super(
+      issues,
+      issues
+        .map(({ path, error }) => `${formatPath(path)}: ${error.message}`)
+        .join("\n")
+    );
+    this.name = "DecodeError";
+  }
+}
+
+type Run<T> = (input: unknown) => Result<T, ValidationError<TypeError>>;
+
+/**
+ * Fail to decode the current path.
+ */
+function expected<T>(
+  description: string
+): Result<T, ValidationError<TypeError>> {
+  return new Result<T, ValidationError<TypeError>>(
+    new ValidationError([
+      { path: [], error: new TypeError(`expected ${description}`) },
+    ]),
+    "Err"
+  );
+}
+
+/**
+ * Turns `unknown` input, such as the output of `JSON.parse`, into a typed Result.
+ *
+ * Decoders are composed from the static members of this class, and check every
+ * path of the input rather than stopping at the first failure.
+ *
+ * @example
+ * ```ts
+ * const order = Decoder.object({
+ *   id: Decoder.string,
+ *   status: Decoder.literal("open", "closed"),
+ *   items: Decoder.array(Decoder.object({ price: Decoder.number.refine((n) => n >= 0, "a positive number") })),
+ *   note: Decoder.optional(Decoder.string),
+ * });
+ *
+ * const res = order.parse(body); // => Result<{ id: string; ...; note: Option<string> }, DecodeError | Error>
+ * ```
+ */
+export class Decoder<T> {
+  /**
+   * A constructor for a Decoder.
+   *
+   * _Note: Please compose Decoders from the static members of this class._
+   *
+   * @param {string} description A description of the expected input, used in error messages.
+   * @param {Function} run Decodes an input, failing with the paths relative to it.
+   */
+  constructor(readonly description: string, private run: Run<T>) {}
+
+  /**
+   * Decode an input, returning every path which failed.
+   *
+   * @param {unknown} input The input to decode.
+   * @returns {Result<T, DecodeError>}
+   */
+  decode(input: unknown): Result<T, DecodeError> {
+    return this.run(input).mapErr((error) => new DecodeError(error.issues));
+  }
+
+  /**
+   * Parse a JSON string and decode the output.
+   *
+   * @param {string} json The JSON to parse.
+   * @returns {Result<T, DecodeError | Error>}
+   */
+  parse(json: string): Result<T, DecodeError | Error> {
+    return Result.from(() => JSON.parse(json) as unknown).andThen((input) =>
+      this.decode(input)
+    );
+  }
+
+  /**
+   * Maps a Decoder<T> to Decoder<U> by applying a function to each decoded value.
+   *
+   * @param {Function} fn A mapping function.
+   * @returns {Decoder<U>}
+   */
+  map<U>(fn: (input: T) => U): Decoder<U> {
+    return new Decoder(this.description, (input) => this.run(input).map(fn));
+  }
+
+  /**
+   * Add a further check to the decoded value.
+   *
+   * @param {Function} predicate Returns true if the decoded value is valid.
+   * @param {string} description A description of a valid value, used in error messages.
+   * @returns {Decoder<T>}
+   *
+   * @example
+   * ```ts
+   * const port = Decoder.number.refine(Number.isInteger, "an integer");
+   * ```
+   */
+  refine<U extends T>(
+    predicate: (input: T) => input is U,
+    description: string
+  ): Decoder<U>;
+  refine(predicate: (input: T) => boolean, description: string): Decoder<T>;
+  refine(predicate: (input: T) => boolean, description: string): Decoder<T> {
+    return new Decoder(description, (input) =>
+      this.run(input).andThen((value) =>
+        predicate(value)
+          ? new Result<T, ValidationError<TypeError>>(value, "Ok")
+          : expected<T>(description)
+      )
+    );
+  }
+
+  /**
+   * Create a Decoder from a type guard.
+   */
+  private static guard<T>(
+    description: string,
+    is: (input: unknown) => input is T
+  ): Decoder<T> {
+    return new Decoder<T>(description, (input) =>
+      is(input)
+        ? new Result<T, ValidationError<TypeError>>(input, "Ok")
+        : expected(description)
+    );
+  }
+
+  /**
+   * Decodes strings.
+   */
+  static readonly string: Decoder<string> = Decoder.guard(
+    "string",
+    (input): input is string => typeof input === "string"
+  );
+
+  /**
+   * Decodes numbers, excluding `NaN`.
+   */
+  static readonly number: Decoder<number> = Decoder.guard(
+    "number",
+    (input): input is number =>
+      typeof input === "number" && !Number.isNaN(input)
+  );
+
+  /**
+   * Decodes booleans.
+   */
+  static readonly boolean: Decoder<boolean> = Decoder.guard(
+    "boolean",
+    (input): input is boolean => typeof input === "boolean"
+  );
+
+  /**
+   * Create a Decoder for one of a list of literal values, compared with `Object.is`.
+   *
+   * @param {L} values The accepted values.
+   * @returns {Decoder<L[number]>}
+   */
+  static literal<
+    L extends ReadonlyArray<string | number | boolean | null | undefined>
+  >(...values: L): Decoder<L[number]> {
+    const description = values
+      .map((value) =>
+        value === undefined ? "undefined" : JSON.stringify(value)
+      )
+      .join(" | ");
+
+    return new Decoder<L[number]>(description, (input) =>
+      values.some((value) => Object.is(value, input))
+        ? new Result<L[number], ValidationError<TypeError>>(
+            input as L[number],
+            "Ok"
+          )
+        : expected(description)
+    );
+  }
+
+  /**
+   * Create a Decoder for arrays, decoding every item.
+   *
+   * @param {Decoder<I>} item The Decoder for each item.
+   * @returns {Decoder<Array<I>>}
+   */
+  static array<I>(item: Decoder<I>): Decoder<Array<I>> {
+    return new Decoder<Array<I>>(`${item.description}[]`, (input) => {
+      if (!Array.isArray(input)) return expected("array");
+
+      return Validation.collect(input.map((value) => item.run(value)));
+    });
+  }
+
+  /**
+   * Create a Decoder for objects, decoding every field of a shape and ignoring any others.
+   *
+   * _Note: Missing fields are decoded as `undefined`, use `Decoder.optional` to decode them as None._
+   * @param {S} shape A Decoder for each field.
+   * @returns {Decoder<{ [K in keyof S]: DecodedOf<S[K]> }>}
+   */
+  static object<S extends Record<string, Decoder<unknown>>>(
+    shape: S
+  ): Decoder<{ [K in keyof S]: DecodedOf<S[K]> }> {
+    return new Decoder("object", (input) => {
+      if (!input || typeof input !== "object" || Array.isArray(input)) {
+        return expected("object");
+      }
+
+      const fields = Object.entries(shape).map(([key, decoder]) => [
+        key,
+        decoder.run((input as Record<string, unknown>)[key]),
+      ]);
+
+      return Validation.struct(
+        Object.fromEntries(fields) as Record<
+          string,
+          Result<unknown, ValidationError<TypeError>>
+        >
+      ) as Result<
+        { [K in keyof S]: DecodedOf<S[K]> },
+        ValidationError<TypeError>
+      >;
+    });
+  }
+
+  /**
+   * Create a Decoder which tries each Decoder in order, returning the first success.
+   *
+   * @param {D} decoders The Decoders to try.
+   * @returns {Decoder<DecodedOf<D[number]>>}
+   */
+  static union<D extends ReadonlyArray<Decoder<unknown>>>(
+    ...decoders: D
+  ): Decoder<DecodedOf<D[number]>> {
+    const description = decoders
+      .map((decoder) => decoder.description)
+      .join(" | ");
+
+    return new Decoder(description, (input) =>
+      Result.any(decoders.map((decoder) => decoder.run(input))).mapErr(() =>
+        expected<never>(description).unwrapErr()
+      )
+    ) as Decoder<DecodedOf<D[number]>>;
+  }
+
+  /**
+   * Create a Decoder which decodes `undefined` and `null` as None, and anything else as Some.
+   *
+   * @param {Decoder<I>} decoder The Decoder for present values.
+   * @returns {Decoder<Option<I>>}
+   */
+  static optional<I>(decoder: Decoder<I>): Decoder<Option<I>> {
+    return new Decoder<Option<I>>(
+      `${decoder.description} | undefined`,
+      (input) =>
+        input === undefined || input === null
+          ? new Result<Option<I>, ValidationError<TypeError>>(None(), "Ok")
+          : decoder.run(input).map((value) => Some(value))
+    );
+  }
+}
@@ -0,0 +1,248 @@
+import { Result } from "./result.ts";
+
+type Method<This, A extends unknown[], R> = (this: This, ...args: A) => R;
+
+type Class = abstract new (...args: never[]) => unknown;
+
+/**
+ * The names of the methods of an instance which return neither a Result nor a promise of one.
+ */
+type PlainMethods<I> = {
+  [K in keyof I]: I[K] extends (...args: never[]) => infer R
+    ? R extends
+        | Result<infer _T, infer _E>
+        | PromiseLike<Result<infer _T, infer _E>>
+      ? never
+      : K
+    : never;
+}[keyof I];
+
+/**
+ * A class whose methods all return Results, or a type naming the methods which don't.
+ */
+type ResultClass<C extends Class> = [PlainMethods<InstanceType<C>>] extends [
+  never
+]
+  ? C
+  : { "Every method must return a Result": PlainMethods<InstanceType<C>> };
+
+/**
+ * Converts a thrown value into the Err type of a decorated method.
+ */
+export type ErrorMapper<E> = (error: unknown) => E;
+
+/**
+ * A `resultify` decorator with an error mapper, for either a method or a class.
+ */
+export interface ResultifyDecorator<E> {
+  <This, A extends unknown[], T>(
+    target: Method<This, A, Result<T, E>>,
+    context: ClassMethodDecoratorContext<This, Method<This, A, Result<T, E>>>
+  ): Method<This, A, Result<T, E>>;
+  <C extends Class>(
+    target: ResultClass<C>,
+    context: ClassDecoratorContext<C>
+  ): void;
+}
+
+/**
+ * A `resultifyAsync` decorator with an error mapper.
+ */
+export interface ResultifyAsyncDecorator<E> {
+  <This, A extends unknown[], T>(
+    target: Method<This, A, Promise<Result<T, E>>>,
+    context: ClassMethodDecoratorContext<
+      This,
+      Method<This, A, Promise<Result<T, E>>>
+    >
+  ): Method<This, A, Promise<Result<T, E>>>;
+}
+
+/**
+ * Convert the outcome of a call into the Result it returned, or an Err of what it threw.
+ *
+ * _Note: A value which isn't a Result is returned as it is, rather than being wrapped in an Ok that its declared type wouldn't mention._
+ */
+function settle(
+  outcome: Result<unknown, Error>,
+  mapErr: ErrorMapper<unknown> | undefined
+): unknown {
+  if (outcome.isErr()) {
+    const error = outcome.unwrapErr();
+    return new Result(mapErr ? mapErr(error) : error, "Err");
+  }
+
+  return outcome.unwrap();
+}
+
+/**
+ * Wrap a synchronous method so that throws become an Err.
+ */
+function captureSync(
+  method: Method<unknown, unknown[], unknown>,
+  mapErr?: ErrorMapper<unknown>
+): Method<unknown, unknown[], unknown> {
+  return function (this: unknown, ...args: unknown[]) {
+    return settle(
+      Result.from(() => method.apply(this, args)),
+      mapErr
+    );
+  };
+}
+
+/**
+ * Wrap an asynchronous method so that throws and rejections become an Err.
+ */
+function captureAsync(
+  method: Method<unknown, unknown[], unknown>,
+  mapErr?: ErrorMapper<unknown>
+): Method<unknown, unknown[], Promise<unknown>> {
+  return async function (this: unknown, ...args: unknown[]) {
+    return settle(
+      await Result.fromAsync(async () => await method.apply(this, args)),
+      mapErr
+    );
+  };
+}
+
+/**
+ * Wrap a method of unknown kind, capturing rejections as well if it returns a promise or an AsyncResult.
+ */
+function capture(
+  method: Method<unknown, unknown[], unknown>,
+  mapErr?: ErrorMapper<unknown>
+): Method<unknown, unknown[], unknown> {
+  return function (this: unknown, ...args: unknown[]) {
+    const outcome = Result.from(() => method.apply(this, args));
+
+    if (outcome.isOk()) {
+      const value = outcome.unwrap() as PromiseLike<unknown> | undefined;
+
+      if (typeof value?.then === "function") {
+        return Result.fromAsync(async () => await value).then((outcome) =>
+          settle(outcome, mapErr)
+        );
+      }
+    }
+
+    return settle(outcome, mapErr);
+  };
+}
+
+/**
+ * Apply a decorator to a method or, for a class, to every method of its prototype.
+ */
+function decorate(
+  target: unknown,
+  context: DecoratorContext,
+  mapErr: ErrorMapper<unknown> | undefined
+) {
+  if (context.kind === "method") {
+    return captureSync(target as Method<unknown, unknown[], unknown>, mapErr);
+  }
+
+  if (context.kind === "class") {
+    const prototype = (target as Class).prototype;
+    const descriptors = Object.getOwnPropertyDescriptors(prototype);
+
+    for (const [key, descriptor] of Object.entries(descriptors)) {
+      if (key === "constructor" || typeof descriptor.value !== "function") {
+        continue;
+      }
+
+      Object.defineProperty(prototype, key, {
+        ...descriptor,
+        value: capture(descriptor.value, mapErr),
+      });
+    }
+
+    return;
+  }
+
+  throw new TypeError("@resultify can only decorate methods and classes");
+}
+
+/**
+ * Capture anything a method throws into an Err, like `Result.from`.
+ *
+ * Decorating a class applies this to every method of its prototype, including
+ * asynchronous ones whose rejections are captured like `Result.fromAsync`. Every
+ * method must then return a Result or a promise of one, since anything it throws
+ * becomes an Err, and the type checker names any method which doesn't.
+ *
+ * _Note: This is a standard (TC39) decorator, not an `experimentalDecorators` one._
+ * @param {Function} mapErr An optional function converting thrown values into the Err type.
+ *
+ * @example
+ * ```ts
+ * class ConfigService {
+ *   @resultify
+ *   parse(text: string): Result<Config, Error> {
+ *     return Ok(JSON.parse(text));
+ *   }
+ *
+ *   @resultify((e) => new ConfigError("Invalid config", { cause: e }))
+ *   validate(config: Config): Result<Config, ConfigError> {
+ *     return Ok(schema.parse(config));
+ *   }
+ * }
+ * ```
+ */
+export function resultify<This, A extends unknown[], T, E>(
+  target: Method<This, A, Result<T, E>>,
+  context: ClassMethodDecoratorContext<This, Method<This, A, Result<T, E>>>
+): Method<This, A, Result<T, E>>;
+export function resultify<C extends Class>(
+  target: ResultClass<C>,
+  context: ClassDecoratorContext<C>
+): void;
+export function resultify<E>(mapErr: ErrorMapper<E>): ResultifyDecorator<E>;
+export function resultify(
+  target: unknown,
+  context?: DecoratorContext
+): unknown {
+  if (context) return decorate(target, context, undefined);
+
+  const mapErr = target as ErrorMapper<unknown>;
+  return (target: unknown, context: DecoratorContext) =>
+    decorate(target, context, mapErr);
+}
+
+/**
+ * Capture anything an asynchronous method throws or rejects with into an Err, like `Result.fromAsync`.
+ *
+ * _Note: This is a standard (TC39) decorator, not an `experimentalDecorators` one._
+ * @param {Function} mapErr An optional function converting thrown values into the Err type.
+ *
+ * @example
+ * ```ts
+ * class UserService {
+ *   @resultifyAsync((e) => new NotFound(String(e)))
+ *   async find(id: string): Promise<Result<User, NotFound>> {
+ *     return Ok(await db.users.findOrThrow(id));
+ *   }
+ * }
+ * ```
+ */
+export function resultifyAsync<This, A extends unknown[], T, E>(
+  target: Method<This, A, Promise<Result<T, E>>>,
+  context: ClassMethodDecoratorContext<
+    This,
+    Method<This, A, Promise<Result<T, E>>>
+  >
+): Method<This, A, Promise<Result<T, E>>>;
+export function resultifyAsync<E>(
+  mapErr: ErrorMapper<E>
+): ResultifyAsyncDecorator<E>;
+export function resultifyAsync(
+  target: unknown,
+  context?: DecoratorContext
+): unknown {
+  if (context) {
+    return captureAsync(target as Method<unknown, unknown[], unknown>);
+  }
+
+  const mapErr = target as ErrorMapper<unknown>;
+  return (target: Method<unknown, unknown[], unknown>) =>
+    captureAsync(target, mapErr);
+}
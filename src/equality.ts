@@ -0,0 +1,618 @@
+import { Option } from "./option.ts";
+import { Result } from "./result.ts";
+import { variantOf } from "./brand.ts";
+
+/**
+ * Returns true if two values are equal.
+ */
+export type Equality<T> = (left: T, right: T) => boolean;
+
+/**
+ * Returns a negative number if the left value sorts first, a positive number if the right value does, or zero.
+ */
+export type Comparator<T> = (left: T, right: T) => number;
+
+/**
+ * How Results are ordered by `Result.compare`.
+ */
+export interface ResultOrder<T, E> {
+  /**
+   * Compares Ok values, defaults to `compare`.
+   */
+  ok?: Comparator<T>;
+  /**
+   * Compares Err values, defaults to `compare`.
+   */
+  err?: Comparator<E>;
+  /**
+   * Whether Errs sort before Oks, defaults to false like Rust.
+   */
+  errFirst?: boolean;
+}
+
+/**
+ * Returns true if two values are structurally equal.
+ *
+ * Options and Results are equal when their variants and contents are, arrays and
+ * objects when their entries are, Maps and Sets when their entries are in any order,
+ * typed arrays when their elements are, Dates when their times are, RegExps when their
+ * source and flags are, and Errors when their class, name and message are. Anything
+ * else is compared with `Object.is`. Cyclic values are compared without looping forever.
+ *
+ * @param {unknown} left The first value.
+ * @param {unknown} right The second value.
+ * @returns {boolean}
+ *
+ * @example
+ * ```ts
+ * equal(Some({ id: 1 }), Some({ id: 1 })) // => true
+ * equal(Err(new TypeError("bad")), Err(new RangeError("bad"))) // => false
+ * ```
+ */
+export function equal(left: unknown, right: unknown): boolean {
+  return deepEqual(left, right, new Map());
+}
+
+/**
+ * Compare two values, assuming the pairs of objects already being compared are equal so that cycles end.
+ */
+function deepEqual(
+  left: unknown,
+  right: unknown,
+  seen: Map<object, Set<object>>
+): boolean {
+  if (Object.is(left, right)) return true;
+
+  if (
+    (Option.isOption(left) && Option.isOption(right)) ||
+    (Result.isResult(left) && Result.isResult(right))
+  ) {
+    return (
+      variantOf(left) === variantOf(right) &&
+      deepEqual(left.peek(), right.peek(), seen)
+    );
+  }
+
+  if (
+    typeof left !== "object" ||
+    typeof right !== "object" ||
+    left === null ||
+    right === null ||
+    Object.getPrototypeOf(left) !== Object.getPrototypeOf(right)
+  ) {
+    return false;
+  }
+
+  if (seen.get(left)?.has(right)) return true;
+
+  const pairs = seen.get(left) ?? new Set();
+  seen.set(left, pairs.add(right));
+
+  try {
+    return equalObjects(left, right, (l, r) => deepEqual(l, r, seen));
+  } finally {
+    pairs.delete(right);
+  }
+}
+
+/**
+ * Compare two objects of the same class, using an equality for their contents.
+ */
+function equalObjects(
+  left: object,
+  right: object,
+  eq: Equality<unknown>
+): boolean {
+  if (left instanceof Error && right instanceof Error) {
+    return left.name === right.name && left.message === right.message;
+  }
+
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() === right.getTime();
+  }
+
+  if (left instanceof RegExp && right instanceof RegExp) {
+    return left.source === right.source && left.flags === right.flags;
+  }
+
+  if (left instanceof Map && right instanceof Map) {
+    const same = (key: unknown) =>
+      left.has(key) && right.has(key) && eq(left.get(key), right.get(key));
+
+    return (
+      left.size === right.size &&
+      sameMembers(
+        [...left].filter(([key]) => !same(key)),
+        [...right].filter(([key]) => !same(key)),
+        ([lk, lv], [rk, rv]) => eq(lk, rk) && eq(lv, rv)
+      )
+    );
+  }
+
+  if (left instanceof Set && right instanceof Set) {
+    return (
+      left.size === right.size &&
+      sameMembers(
+        [...left].filter((value) => !right.has(value)),
+        [...right].filter((value) => !left.has(value)),
+        eq
+      )
+    );
+  }
+
+  if (ArrayBuffer.isView(left) || left instanceof ArrayBuffer) {
+    const [l, r] = [elementsOf(left), elementsOf(right)];
+    return l.length === r.length && l.every((item, i) => Object.is(item, r[i]));
+  }
+
+  const keys = Object.keys(left);
+  if (keys.length !== Object.keys(right).length) return false;
+
+  return keys.every(
+    (key) =>
+      Object.hasOwn(right, key) &&
+      eq(
+        (left as Record<string, unknown>)[key],
+        (right as Record<string, unknown>)[key]
+      )
+  );
+}
+
+/**
+ * Returns true if every item of one array can be paired with a distinct, equal item of the other.
+ */
+function sameMembers<T>(left: T[], right: T[], eq: Equality<T>): boolean {
+  if (left.length !== right.length) return false;
+
+  const rest = [...right];
+  return left.every((item) => {
+    const index = rest.findIndex((other) => eq(item, other));
+    if (index === -1) return false;
+
+    rest.splice(index, 1);
+    return true;
+  });
+}
+
+/**
+ * The elements of a typed array, or the bytes of a DataView or ArrayBuffer.
+ */
+function elementsOf(value: object): unknown[] {
+  if (value instanceof ArrayBuffer) {
+    return [...new Uint8Array(value)];
+  }
+
+  if (value instanceof DataView) {
+    return [
+      ...new Uint8Array(value.buffer, value.byteOffset, value.byteLength),
+    ];
+  }
+
+  return Array.from(value as ArrayLike<unknown>);
+}
+
+/**
+ * Order two values of the same primitive type, sorting `NaN` after every other number.
+ */
+function comparePrimitives<T>(left: T, right: T): number {
+  if (Number.isNaN(left) || Number.isNaN(right)) {
+    return Number(Number.isNaN(left)) - Number(Number.isNaN(right));
+  }
+
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Order two values, for use with `Array.prototype.sort`.
+ *
+ * Numbers, bigints, strings and booleans of the same type are compared directly,
+ * Dates by their time, arrays element by element, and Options and Results with their
+ * `compare` methods. Anything else is ordered by its `hashKey`, so any two values have an order.
+ *
+ * @param {unknown} left The first value.
+ * @param {unknown} right The second value.
+ * @returns {number}
+ */
+export function compare(left: unknown, right: unknown): number {
+  if (Option.isOption(left) && Option.isOption(right)) {
+    return left.compare(right);
+  }
+
+  if (Result.isResult(left) && Result.isResult(right)) {
+    return left.compare(right);
+  }
+
+  if (left instanceof Date && right instanceof Date) {
+    return comparePrimitives(left.getTime(), right.getTime());
+  }
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    for (let index = 0; index < left.length && index < right.length; index++) {
+      const order = compare(left[index], right[index]);
+      if (order) return order;
+    }
+
+    return comparePrimitives(left.length, right.length);
+  }
+
+  if (
+    typeof left === typeof right &&
+    ["number", "bigint", "string", "boolean"].includes(typeof left)
+  ) {
+    return comparePrimitives(left, right);
+  }
+
+  return comparePrimitives(hashKey(left), hashKey(right));
+}
+
+/**
+ * Thrown while describing a value which contains itself.
+ */
+const circular = Symbol("circular");
+
+/**
+ * Describe a value as a string which is the same for every value it is `equal` to.
+ *
+ * _Note: Distinct symbols and functions with the same description share a key, as do all values containing a cycle, so keys may collide but are never different for equal values._
+ * @param {unknown} value The value to describe.
+ * @returns {string}
+ *
+ * @example
+ * ```ts
+ * hashKey(Ok({ b: 2, a: 1 })) // => 'Ok({"a":1,"b":2})'
+ * ```
+ */
+export function hashKey(value: unknown): string {
+  if (Option.isOption(value) || Result.isResult(value)) {
+    return value.hashKey();
+  }
+
+  try {
+    return describe(value, new Set());
+  } catch (e: unknown) {
+    if (e === circular) return "[Circular]";
+    throw e;
+  }
+}
+
+/**
+ * Describe a value, throwing `circular` if it contains one of the objects it is nested in.
+ */
+function describe(value: unknown, parents: Set<object>): string {
+  switch (typeof value) {
+    case "string":
+      return JSON.stringify(value);
+    case "number":
+      return Object.is(value, -0) ? "-0" : String(value);
+    case "bigint":
+      return `${value}n`;
+    case "function":
+      return `[Function ${value.name}]`;
+  }
+
+  if (typeof value !== "object" || value === null) return String(value);
+
+  if (parents.has(value)) throw circular;
+  parents.add(value);
+
+  try {
+    return describeObject(value, (item) => describe(item, parents));
+  } finally {
+    parents.delete(value);
+  }
+}
+
+/**
+ * Describe an object, using a function to describe its contents.
+ */
+function describeObject(
+  value: object,
+  describe: (item: unknown) => string
+): string {
+  if (Option.isOption(value) || Result.isResult(value)) {
+    const variant = variantOf(value);
+    return variant === "None"
+      ? variant
+      : `${variant}(${describe(value.peek())})`;
+  }
+
+  if (value instanceof Error) {
+    return `${value.name}(${JSON.stringify(value.message)})`;
+  }
+
+  if (value instanceof Date) {
+    return `Date(${value.getTime()})`;
+  }
+
+  if (value instanceof RegExp) {
+    return String(value);
+  }
+
+  if (value instanceof Map) {
+    const entries = [...value].map(
+      ([key, item]) => `${describe(key)}=>${describe(item)}`
+    );
+    return `Map{${entries.sort().join(",")}}`;
+  }
+
+  if (value instanceof Set) {
+    return `Set{${[...value].map(describe).sort().join(",")}}`;
+  }
+
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    const name = Object.prototype.toString.call(value).slice(8, -1);
+    return `${name}[${elementsOf(value).map(describe).join(",")}]`;
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(describe).join(",")}]`;
+  }
+
+  const fields = Object.keys(value)
+    .sort()
+    .map(
+      (key) =>
+        `${JSON.stringify(key)}:${describe(
+          (value as Record<string, unknown>)[key]
+        )}`
+    );
+
+  return `{${fields.join(",")}}`;
+}
+
+/**
+ * A Map whose keys are compared structurally with `equal`, rather than by identity.
+ *
+ * @example
+ * ```ts
+ * const cache = new ValueMap<Option<string>, number>();
+ * cache.set(Some("a"), 1);
+ * cache.get(Some("a")) // => 1
+ * ```
+ */
+export class ValueMap<K, V> {
+  private buckets = new Map<string, Array<[K, V]>>();
+  private count = 0;
+
+  /**
+   * A constructor for a ValueMap.
+   *
+   * @param {Iterable<[K, V]>} entries Optional entries to add.
+   */
+  constructor(entries?: Iterable<readonly [K, V]> | null) {
+    for (const [key, value] of entries ?? []) {
+      this.set(key, value);
+    }
+  }
+
+  /**
+   * Converts ValueMap into a String for display purposes.
+   */
+  get [Symbol.toStringTag]() {
+    return `ValueMap`;
+  }
+
+  /**
+   * The number of entries.
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Find the entry for a key, along with the bucket holding it.
+   */
+  private find(key: K): [Array<[K, V]> | undefined, number] {
+    const bucket = this.buckets.get(hashKey(key));
+    return [bucket, bucket?.findIndex(([other]) => equal(key, other)) ?? -1];
+  }
+
+  /**
+   * Returns the value for a key, or `undefined` if there is none.
+   *
+   * @param {K} key The key to look up.
+   * @returns {V | undefined}
+   */
+  get(key: K): V | undefined {
+    const [bucket, index] = this.find(key);
+    return index === -1 ? undefined : bucket![index][1];
+  }
+
+  /**
+   * Returns true if there is a value for a key.
+   *
+   * @param {K} key The key to look up.
+   * @returns {boolean}
+   */
+  has(key: K): boolean {
+    return this.find(key)[1] !== -1;
+  }
+
+  /**
+   * Set the value for a key, replacing any value for an equal key.
+   *
+   * @param {K} key The key to set.
+   * @param {V} value The value to set.
+   * @returns {this}
+   */
+  set(key: K, value: V): this {
+    const [bucket, index] = this.find(key);
+
+    if (index !== -1) {
+      bucket![index][1] = value;
+    } else if (bucket) {
+      bucket.push([key, value]);
+      this.count++;
+    } else {
+      this.buckets.set(hashKey(key), [[key, value]]);
+      this.count++;
+    }
+
+    return this;
+  }
+
+  /**
+   * Remove the entry for a key.
+   *
+   * @param {K} key The key to remove.
+   * @returns {boolean} True if there was an entry to remove.
+   */
+  delete(key: K): boolean {
+    const [bucket, index] = this.find(key);
+    if (index === -1) return false;
+
+    bucket!.splice(index, 1);
+    if (!bucket!.length) this.buckets.delete(hashKey(key));
+    this.count--;
+
+    return true;
+  }
+
+  /**
+   * Remove every entry.
+   */
+  clear(): void {
+    this.buckets.clear();
+    this.count = 0;
+  }
+
+  /**
+   * Iterate over each entry, in insertion order of their hash keys.
+   *
+   * @returns {IterableIterator<[K, V]>}
+   */
+  *entries(): IterableIterator<[K, V]> {
+    for (const bucket of this.buckets.values()) {
+      for (const [key, value] of bucket) yield [key, value];
+    }
+  }
+
+  /**
+   * Iterate over each key.
+   *
+   * @returns {IterableIterator<K>}
+   */
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.entries()) yield key;
+  }
+
+  /**
+   * Iterate over each value.
+   *
+   * @returns {IterableIterator<V>}
+   */
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entries()) yield value;
+  }
+
+  /**
+   * Call a function with each entry.
+   *
+   * @param {Function} fn Called with each value and key.
+   */
+  forEach(fn: (value: V, key: K, map: this) => void): void {
+    for (const [key, value] of this.entries()) fn(value, key, this);
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+}
+
+/**
+ * A Set whose values are compared structurally with `equal`, rather than by identity.
+ *
+ * @example
+ * ```ts
+ * const seen = new ValueSet([Ok(1), Ok(1), Err("Oops")]);
+ * seen.size // => 2
+ * ```
+ */
+export class ValueSet<T> {
+  private map = new ValueMap<T, T>();
+
+  /**
+   * A constructor for a ValueSet.
+   *
+   * @param {Iterable<T>} values Optional values to add.
+   */
+  constructor(values?: Iterable<T> | null) {
+    for (const value of values ?? []) {
+      this.add(value);
+    }
+  }
+
+  /**
+   * Converts ValueSet into a String for display purposes.
+   */
+  get [Symbol.toStringTag]() {
+    return `ValueSet`;
+  }
+
+  /**
+   * The number of values.
+   */
+  get size(): number {
+    return this.map.size;
+  }
+
+  /**
+   * Returns true if the set has a value equal to the given one.
+   *
+   * @param {T} value The value to look up.
+   * @returns {boolean}
+   */
+  has(value: T): boolean {
+    return this.map.has(value);
+  }
+
+  /**
+   * Add a value, unless the set already has an equal one.
+   *
+   * @param {T} value The value to add.
+   * @returns {this}
+   */
+  add(value: T): this {
+    if (!this.map.has(value)) this.map.set(value, value);
+    return this;
+  }
+
+  /**
+   * Remove the value equal to the given one.
+   *
+   * @param {T} value The value to remove.
+   * @returns {boolean} True if there was a value to remove.
+   */
+  delete(value: T): boolean {
+    return this.map.delete(value);
+  }
+
+  /**
+   * Remove every value.
+   */
+  clear(): void {
+    this.map.clear();
+  }
+
+  /**
+   * Iterate over each value.
+   *
+   * @returns {IterableIterator<T>}
+   */
+  values(): IterableIterator<T> {
+    return this.map.values();
+  }
+
+  /**
+   * Call a function with each value.
+   *
+   * @param {Function} fn Called with each value.
+   */
+  forEach(fn: (value: T, set: this) => void): void {
+    for (const value of this.values()) fn(value, this);
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.values();
+  }
+}
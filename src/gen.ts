@@ -0,0 +1,130 @@
+/**
+ * Shared plumbing for the `gen`/`genAsync` do-notation of Option and Result.
+ *
+ * `yield*` always passes an argument to the delegated iterator's `next` method,
+ * while spreading, destructuring and `for...of` never do. The variant iterators
+ * use this to keep yielding the contained value during plain iteration, whilst
+ * returning it (or yielding the short-circuiting variant) under `yield*`.
+ *
+ * @module
+ */
+
+declare const shortCircuit: unique symbol;
+
+/**
+ * A type-only marker carrying the type a variant would short-circuit with.
+ *
+ * _Note: This never exists at runtime, it lets `gen` infer the union of every yielded Err type._
+ * It is required, so that values yielded without `yield*`, such as a plain `yield Ok(x)`, lack it and are rejected.
+ */
+export interface ShortCircuit<S> {
+  readonly [shortCircuit]: S;
+}
+
+/**
+ * The values a `gen` block may yield, which only `yield*` on an Option or Result produces.
+ */
+export type GenYield = ShortCircuit<unknown> | null | undefined;
+
+/**
+ * The type yielded when iterating over a variant which may short-circuit with `S`.
+ *
+ * _Note: Values which are always nullish cannot carry the marker, so it is added alongside them instead._
+ */
+export type Yielded<T, S> = [T] extends [null | undefined]
+  ? T | ShortCircuit<S>
+  : T extends null | undefined
+  ? T
+  : T & ShortCircuit<S>;
+
+/**
+ * Extracts the union of short-circuit types from the yield type of a generator.
+ */
+export type ShortCircuitOf<Y> = Y extends ShortCircuit<infer S> ? S : never;
+
+/**
+ * An iterator over a variant, returning the contained value when delegated to.
+ */
+export type VariantIterator<T, S> = Iterator<Yielded<T, S>, T, unknown> &
+  Iterable<Yielded<T, S>>;
+
+/**
+ * Create an iterator over a variant.
+ *
+ * @param {boolean} present Whether the variant holds a value to yield.
+ * @param {T} value The contained value.
+ * @param {S} variant The variant to yield to a `gen` runner when not present.
+ * @returns {VariantIterator<T, S>}
+ */
+export function variantIterator<T, S>(
+  present: boolean,
+  value: T,
+  variant: unknown
+): VariantIterator<T, S> {
+  let finished = false;
+
+  return {
+    next(...args: [] | [unknown]) {
+      if (finished) return { done: true, value: value };
+      finished = true;
+
+      // Delegated to with `yield*`
+      if (args.length) {
+        if (present) return { done: true, value: value };
+        return { done: false, value: variant as unknown as Yielded<T, S> };
+      }
+
+      if (present) {
+        return { done: false, value: value as Yielded<T, S> };
+      }
+      return { done: true, value: value };
+    },
+    [Symbol.iterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * Drive a `gen` block, stopping at the first short-circuiting variant.
+ *
+ * @param {Iterator} iterator The generator created by the block.
+ * @param {Function} wrap Wraps the value returned by the block.
+ * @param {Function} shortCircuit Converts the yielded variant into the block's output.
+ * @returns {R}
+ */
+export function runGen<T, R>(
+  iterator: Iterator<unknown, T, unknown>,
+  wrap: (value: T) => R,
+  shortCircuit: (variant: unknown) => R
+): R {
+  const step = iterator.next();
+  if (!step.done) {
+    iterator.return?.(undefined as unknown as T);
+    return shortCircuit(step.value);
+  }
+
+  return wrap(step.value);
+}
+
+/**
+ * Drive a `genAsync` block, stopping at the first short-circuiting variant.
+ *
+ * @param {AsyncIterator} iterator The async generator created by the block.
+ * @param {Function} wrap Wraps the value returned by the block.
+ * @param {Function} shortCircuit Converts the yielded variant into the block's output.
+ * @returns {Promise<R>}
+ */
+export async function runGenAsync<T, R>(
+  iterator: AsyncIterator<unknown, T, unknown>,
+  wrap: (value: T) => R,
+  shortCircuit: (variant: unknown) => R
+): Promise<R> {
+  const step = await iterator.next();
+  if (!step.done) {
+    await iterator.return?.(undefined as unknown as T);
+    return shortCircuit(step.value);
+  }
+
+  return wrap(step.value);
+}
@@ -0,0 +1,176 @@
+/**
+ * Shared plumbing for rendering Options and Results in `console.log`, `Deno.inspect`,
+ * Node's `util.inspect` and `toString`, as `Some(5)`, `None`, `Ok({ id: 1 })` or
+ * `Err(TypeError: bad input)`.
+ *
+ * @module
+ */
+
+import { Option } from "./option.ts";
+import { Result } from "./result.ts";
+import { variantOf } from "./brand.ts";
+
+/**
+ * The key of the method `Deno.inspect` calls to render a value.
+ */
+export const denoInspect = Symbol.for("Deno.customInspect");
+
+/**
+ * The key of the method Node's `util.inspect` calls to render a value.
+ */
+export const nodeInspect = Symbol.for("nodejs.util.inspect.custom");
+
+/**
+ * The options passed to custom inspection methods by Deno and Node.
+ */
+export interface InspectOptions {
+  depth?: number | null;
+  colors?: boolean;
+  /**
+   * How deeply nested the value being rendered is, passed by Deno only.
+   */
+  currentDepth?: number;
+}
+
+/**
+ * The `inspect` function passed to custom inspection methods by Deno and Node.
+ */
+export type Inspect = (value: unknown, options?: InspectOptions) => string;
+
+/**
+ * Describe a value on a single line, showing the variant of Options and Results.
+ *
+ * _Note: Objects nested inside themselves are shown as `[Circular]`._
+ * @param {unknown} value The value to describe.
+ * @returns {string}
+ */
+export function format(value: unknown): string {
+  return describe(value, new Set());
+}
+
+/**
+ * Describe a value, showing the objects it is nested in as `[Circular]`.
+ */
+function describe(value: unknown, parents: Set<object>): string {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "bigint") return `${value}n`;
+  if (typeof value !== "object" || value === null) return String(value);
+
+  if (parents.has(value)) return "[Circular]";
+  parents.add(value);
+
+  try {
+    return describeObject(value, (item) => describe(item, parents));
+  } finally {
+    parents.delete(value);
+  }
+}
+
+/**
+ * Describe an object, using a function to describe its contents.
+ */
+function describeObject(
+  value: object,
+  describe: (item: unknown) => string
+): string {
+  if (Result.isResult(value) || Option.isOption(value)) {
+    const variant = variantOf(value);
+    return variant === "None"
+      ? variant
+      : `${variant}(${describe(value.peek())})`;
+  }
+
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  }
+
+  if (value instanceof RegExp) return String(value);
+
+  if (value instanceof Map) {
+    const entries = [...value].map(
+      ([key, item]) => `${describe(key)} => ${describe(item)}`
+    );
+    return `Map(${value.size}) ${braces(entries)}`;
+  }
+
+  if (value instanceof Set) {
+    return `Set(${value.size}) ${braces([...value].map(describe))}`;
+  }
+
+  if (Array.isArray(value)) return `[${value.map(describe).join(", ")}]`;
+
+  return braces(
+    Object.entries(value).map(([key, item]) => `${key}: ${describe(item)}`)
+  );
+}
+
+/**
+ * Wrap entries in braces, or show `{}` when there are none.
+ */
+function braces(entries: string[]): string {
+  return entries.length ? `{ ${entries.join(", ")} }` : "{}";
+}
+
+/**
+ * Render the contents of a variant, showing Errors by their name and message rather than their stack.
+ */
+function contents(
+  value: unknown,
+  inspect: Inspect,
+  options: InspectOptions,
+  depth: number | null | undefined
+): string {
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+
+  return inspect(value, { ...options, depth });
+}
+
+/**
+ * Render a variant for `Deno.inspect`, which restarts depth counting whenever `inspect` is called.
+ *
+ * @param {string} variant The name of the variant.
+ * @param {unknown} value The contained value.
+ * @param {Inspect} inspect The `inspect` function passed by Deno.
+ * @param {InspectOptions} options The options passed by Deno.
+ * @returns {string}
+ */
+export function inspectDeno(
+  variant: string,
+  value: unknown,
+  inspect: Inspect,
+  options: InspectOptions
+): string {
+  const { depth, currentDepth = 0 } = options;
+  const remaining =
+    typeof depth === "number" ? depth - currentDepth - 1 : depth;
+
+  return `${variant}(${contents(value, inspect, options, remaining)})`;
+}
+
+/**
+ * Render a variant for Node's `util.inspect`, which passes the remaining depth.
+ *
+ * @param {string} variant The name of the variant.
+ * @param {unknown} value The contained value.
+ * @param {number | null} depth The remaining depth passed by Node.
+ * @param {InspectOptions} options The options passed by Node.
+ * @param {Inspect} inspect The `inspect` function passed by Node.
+ * @returns {string}
+ */
+export function inspectNode(
+  variant: string,
+  value: unknown,
+  depth: number | null,
+  options: InspectOptions,
+  inspect: Inspect
+): string {
+  const remaining = typeof depth === "number" ? depth - 1 : depth;
+
+  return `${variant}(${contents(value, inspect, options, remaining)})`;
+}
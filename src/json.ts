@@ -0,0 +1,347 @@
+import { none, Option } from "./option.ts";
+import { Result } from "./result.ts";
+
+/**
+ * The key holding the variant in the wire formats, namespaced so that user data with a `tag` field is never mistaken for an Option or Result.
+ */
+export const tagKey = "$optionals";
+
+/**
+ * The wire format of an Error, tagged under `tagKey` so that plain objects with a `name` and `message` are never mistaken for one.
+ *
+ * _Note: Own enumerable fields of the Error, such as a `code`, are kept alongside these, with any Errors inside of them written as an `ErrorJSON` too._
+ */
+export interface ErrorJSON {
+  [tagKey]: "Error";
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  /**
+   * The Errors of an AggregateError, such as a RetryError or ValidationError.
+   */
+  errors?: Array<unknown>;
+  [field: string]: unknown;
+}
+
+/**
+ * The wire format of the value held by an Err, where Errors are written as an `ErrorJSON`.
+ */
+export type ErrJSON<E> = E extends Error ? ErrorJSON : E;
+
+/**
+ * The wire format of a Result: `{"$optionals":"Ok","value":...}` or `{"$optionals":"Err","error":...}`.
+ */
+export type ResultJSON<T, E> =
+  | { [tagKey]: "Ok"; value: T }
+  | { [tagKey]: "Err"; error: ErrJSON<E> };
+
+/**
+ * The wire format of an Option: `{"$optionals":"Some","value":...}` or `{"$optionals":"None"}`.
+ */
+export type OptionJSON<T> =
+  | { [tagKey]: "Some"; value: T }
+  | { [tagKey]: "None" };
+
+/**
+ * A class of Error that can be rebuilt from JSON.
+ */
+export interface ErrorClass {
+  readonly name: string;
+  readonly prototype: Error;
+}
+
+/**
+ * The built-in Error classes.
+ */
+const builtins: Array<ErrorClass> = [
+  Error,
+  AggregateError,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+];
+
+/**
+ * Maps Error names to the classes used to rebuild them from JSON.
+ *
+ * Errors are rebuilt from the prototype of their class without calling its
+ * constructor, so subclasses with any constructor signature can be registered.
+ * Names without a registered class are rebuilt as a plain Error which keeps the name.
+ *
+ * @example
+ * ```ts
+ * class NotFoundError extends Error {
+ *   override name = "NotFoundError";
+ * }
+ *
+ * const registry = new ErrorRegistry().register(NotFoundError);
+ * const res = Result.fromJSON(body, registry);
+ *
+ * res.unwrapErr() instanceof NotFoundError // => true
+ * ```
+ */
+export class ErrorRegistry {
+  private classes = new Map<string, ErrorClass>();
+
+  /**
+   * A constructor for an ErrorRegistry.
+   *
+   * @param {Iterable<ErrorClass>} classes Error classes to register by their name, defaults to the built-in Error classes.
+   */
+  constructor(classes: Iterable<ErrorClass> = builtins) {
+    for (const errorClass of classes) this.register(errorClass);
+  }
+
+  /**
+   * Register an Error class under a name, returning the registry.
+   *
+   * @param {ErrorClass} errorClass The class to rebuild Errors with.
+   * @param {string} name The `name` its Errors are serialized with, defaults to the class name.
+   * @returns {ErrorRegistry}
+   */
+  register(errorClass: ErrorClass, name: string = errorClass.name): this {
+    this.classes.set(name, errorClass);
+    return this;
+  }
+
+  /**
+   * Returns the class registered under a name, if any.
+   *
+   * @param {string} name The name of the Error.
+   * @returns {ErrorClass | undefined}
+   */
+  get(name: string): ErrorClass | undefined {
+    return this.classes.get(name);
+  }
+}
+
+/**
+ * The registry used when none is provided.
+ */
+export const errorRegistry = new ErrorRegistry();
+
+/**
+ * Returns true if a value is an object tagged as an `ErrorJSON`.
+ */
+function isErrorJSON(value: unknown): value is ErrorJSON {
+  return (
+    isPlainObject(value) &&
+    value[tagKey] === "Error" &&
+    typeof (value as ErrorJSON).name === "string" &&
+    typeof (value as ErrorJSON).message === "string"
+  );
+}
+
+/**
+ * Write every Error within a value as an `ErrorJSON`, looking inside arrays and object literals.
+ *
+ * _Note: A cyclic value is left as it is, for `JSON.stringify` to reject._
+ * @param {unknown} value The value to convert.
+ * @returns {unknown}
+ */
+export function serializeErrors(value: unknown): unknown {
+  return serializeWithin(value, new Set());
+}
+
+/**
+ * Write every Error within a value as an `ErrorJSON`, skipping the arrays and objects it is nested in.
+ */
+function serializeWithin(value: unknown, parents: Set<unknown>): unknown {
+  if (value instanceof Error) return serializeError(value);
+  if (!Array.isArray(value) && !isPlainObject(value)) return value;
+  if (parents.has(value)) return value;
+
+  parents.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) => serializeWithin(item, parents));
+    }
+
+    const entries = Object.entries(value).map(([key, item]) => [
+      key,
+      serializeWithin(item, parents),
+    ]);
+    return Object.fromEntries(entries);
+  } finally {
+    parents.delete(value);
+  }
+}
+
+/**
+ * Rebuild every `ErrorJSON` within a value, looking inside arrays and object literals.
+ */
+function deserializeErrors(value: unknown, registry: ErrorRegistry): unknown {
+  if (isErrorJSON(value)) return deserializeError(value, registry);
+  if (Array.isArray(value)) {
+    return value.map((item) => deserializeErrors(item, registry));
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).map(([key, item]) => [
+      key,
+      deserializeErrors(item, registry),
+    ]);
+    return Object.fromEntries(entries);
+  }
+
+  return value;
+}
+
+/**
+ * Convert an Error into its wire format, including its stack, cause and the `errors` of an AggregateError.
+ *
+ * @param {Error} error The Error to convert.
+ * @returns {ErrorJSON}
+ */
+export function serializeError(error: Error): ErrorJSON {
+  const json: ErrorJSON = {
+    ...(serializeErrors({ ...error }) as Record<string, unknown>),
+    [tagKey]: "Error",
+    name: error.name,
+    message: error.message,
+  };
+
+  if (error.stack !== undefined) json.stack = error.stack;
+  if (error.cause !== undefined) json.cause = serializeErrors(error.cause);
+  if (error instanceof AggregateError) {
+    json.errors = error.errors.map(serializeErrors);
+  }
+
+  return json;
+}
+
+/**
+ * Rebuild an Error from its wire format, using the class registered under its name.
+ *
+ * @param {ErrorJSON} json The wire format of the Error.
+ * @param {ErrorRegistry} registry The registry to look the name up in.
+ * @returns {Error}
+ */
+export function deserializeError(
+  json: ErrorJSON,
+  registry: ErrorRegistry = errorRegistry
+): Error {
+  const {
+    [tagKey]: _tag,
+    name,
+    message,
+    stack,
+    cause,
+    errors,
+    ...fields
+  } = json;
+  const errorClass = registry.get(name) ?? Error;
+  const error: Error = Object.assign(
+    Object.create(errorClass.prototype),
+    deserializeErrors(fields, registry)
+  );
+
+  const hidden = (key: string, value: unknown) =>
+    Object.defineProperty(error, key, {
+      value,
+      writable: true,
+      configurable: true,
+    });
+
+  if (error.name !== name) hidden("name", name);
+  hidden("message", message);
+  if (stack !== undefined) hidden("stack", stack);
+  if (cause !== undefined) hidden("cause", deserializeErrors(cause, registry));
+  if (errors !== undefined) {
+    const rebuilt = deserializeErrors(errors, registry);
+    if (error instanceof AggregateError) {
+      hidden("errors", rebuilt);
+    } else {
+      Object.assign(error, { errors: rebuilt });
+    }
+  }
+
+  return error;
+}
+
+/**
+ * Returns true if a value is an object literal, such as those created by `JSON.parse`.
+ */
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  if (!value || typeof value !== "object") return false;
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Convert a tagged object into an Option, Result or Error, leaving any other value untouched.
+ *
+ * _Note: Values are revived from the innermost out, so anything nested in a tagged object has already been rebuilt._
+ */
+function fromTagged(value: unknown, registry: ErrorRegistry): unknown {
+  if (!isPlainObject(value)) return value;
+
+  const keys = Object.keys(value);
+  const only = (...allowed: string[]) =>
+    keys.every((key) => key === tagKey || allowed.includes(key));
+
+  switch (value[tagKey]) {
+    case "Ok":
+      return only("value") ? new Result(value.value, "Ok") : value;
+    case "Err":
+      return only("error") ? new Result(value.error, "Err") : value;
+    case "Some":
+      return only("value") ? new Option(value.value) : value;
+    case "None":
+      return only() ? new Option(none) : value;
+    case "Error":
+      return isErrorJSON(value) ? deserializeError(value, registry) : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Create a `JSON.parse` reviver which rebuilds every tagged Option and Result, including nested ones.
+ *
+ * @param {ErrorRegistry} registry The registry used to rebuild Errors.
+ * @returns {Function}
+ *
+ * @example
+ * ```ts
+ * const body = JSON.parse(text, reviver()); // => { user: Some({...}), saved: Ok(true) }
+ * ```
+ */
+export function reviver(
+  registry: ErrorRegistry = errorRegistry
+): (key: string, value: unknown) => unknown {
+  return (_key, value) => fromTagged(value, registry);
+}
+
+/**
+ * Rebuild every tagged Option and Result within an already parsed value.
+ *
+ * @param {unknown} value The parsed value.
+ * @param {ErrorRegistry} registry The registry used to rebuild Errors.
+ * @returns {unknown}
+ */
+export function revive(
+  value: unknown,
+  registry: ErrorRegistry = errorRegistry
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => revive(item, registry));
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).map(([key, item]) => [
+      key,
+      revive(item, registry),
+    ]);
+    return fromTagged(Object.fromEntries(entries), registry);
+  }
+
+  return value;
+}
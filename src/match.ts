@@ -0,0 +1,95 @@
+import { Option } from "./option.ts";
+import { Result } from "./result.ts";
+
+/**
+ * A function handling a matched value.
+ *
+ * _Note: Declared as a method so that, like other method parameters, handlers are checked bivariantly
+ * and `Result<string, E>` stays assignable to `Result<unknown, E>`._
+ */
+export type Handler<T, U> = {
+  handle(input: T): U;
+}["handle"];
+
+/**
+ * A guarded or literal case: the handler runs when the predicate returns true, or when the value equals the literal.
+ *
+ * _Note: A function in the first position is always treated as a predicate._
+ */
+export type Case<T, U> = readonly [
+  pattern: T | Handler<T, boolean>,
+  handler: Handler<T, U>
+];
+
+/**
+ * A list of cases tried in order, ending with a catch-all handler.
+ */
+export type Cases<T, U> = readonly [...Case<T, U>[], Handler<T, U>];
+
+/**
+ * The arms matching an Option: a handler for each variant.
+ */
+export interface OptionArms<T, U> {
+  Some: Arm<T, U>;
+  None: () => U;
+}
+
+/**
+ * The arms matching a Result: a handler for each variant.
+ */
+export interface ResultArms<T, E, U> {
+  Ok: Arm<T, U>;
+  Err: Arm<E, U>;
+}
+
+/**
+ * How a contained value is matched: with a handler, a list of cases, or nested arms when it is itself an Option or Result.
+ */
+export type Arm<T, U> = Handler<T, U> | Cases<T, U> | NestedArms<T, U>;
+
+type NestedArms<T, U> = [T] extends [Option<infer I>]
+  ? OptionArms<I, U>
+  : [T] extends [Result<infer A, infer B>]
+  ? ResultArms<A, B, U>
+  : never;
+
+/**
+ * Match a contained value against an arm.
+ *
+ * @param {Arm<T, U>} arm The arm to match against.
+ * @param {T} input The contained value.
+ * @returns {U}
+ */
+export function matchArm<T, U>(arm: Arm<T, U>, input: T): U {
+  if (typeof arm === "function") {
+    return arm(input);
+  }
+
+  if (Array.isArray(arm)) {
+    return matchCases(arm as Cases<T, U>, input);
+  }
+
+  if (Option.isOption(input) || Result.isResult(input)) {
+    return input.match(arm as never);
+  }
+
+  throw new TypeError("Nested arms can only match an Option or a Result");
+}
+
+function matchCases<T, U>(cases: Cases<T, U>, input: T): U {
+  for (const item of cases) {
+    if (typeof item === "function") {
+      return (item as Handler<T, U>)(input);
+    }
+
+    const [pattern, handler] = item as Case<T, U>;
+    const matches =
+      typeof pattern === "function"
+        ? (pattern as Handler<T, boolean>)(input)
+        : Object.is(pattern, input);
+
+    if (matches) return handler(input);
+  }
+
+  throw new TypeError("Match cases must end with a catch-all handler");
+}
@@ -0,0 +1,175 @@
+/**
+ * Opt-in tracking of Errs which are dropped without being handled, like Rust's `#[must_use]`.
+ *
+ * While enabled, every Err remembers where it was created, and every method of
+ * Result marks the Result it is called on as handled. Methods returning the same
+ * Err they were called on, such as `map`, pass the duty to handle it along. Errs
+ * which are garbage collected before being handled are reported.
+ *
+ * @module
+ */
+
+import { Result } from "./result.ts";
+import { format } from "./inspect.ts";
+
+/**
+ * An Err which was not handled, and where it was created.
+ */
+export interface UnhandledErr {
+  /**
+   * The contained Err value.
+   */
+  readonly error: unknown;
+  /**
+   * The stack trace of the code which created the Err.
+   */
+  readonly stack: string;
+}
+
+/**
+ * Options for `Result.enableMustUse`.
+ */
+export interface MustUseOptions {
+  /**
+   * Called with each Err which was garbage collected before being handled, defaults to logging it with `console.error`.
+   */
+  onUnhandled?: (unhandled: UnhandledErr) => void;
+}
+
+interface Tracker {
+  registry: FinalizationRegistry<UnhandledErr>;
+  pending: Set<UnhandledErr>;
+  entries: WeakMap<object, UnhandledErr>;
+  methods: Map<PropertyKey, PropertyDescriptor>;
+}
+
+/**
+ * Whether Errs are being tracked, checked by the Result constructor before calling `trackErr`.
+ */
+export let tracking = false;
+
+let tracker: Tracker | undefined;
+
+/**
+ * Log an Err which was dropped without being handled.
+ */
+function logUnhandled({ error, stack }: UnhandledErr): void {
+  console.error(
+    `An Err was dropped without being handled: ${format(error)}\n${stack}`
+  );
+}
+
+/**
+ * Start tracking an Err, remembering the stack trace of the code creating it.
+ *
+ * @param {Result<unknown, unknown>} result The Err to track.
+ * @param {unknown} error The contained Err value.
+ */
+export function trackErr(result: Result<unknown, unknown>, error: unknown) {
+  if (!tracker) return;
+
+  const stack = (new Error().stack ?? "").split("\n").slice(1).join("\n");
+  watch(result, { error, stack });
+}
+
+function watch(result: Result<unknown, unknown>, entry: UnhandledErr) {
+  tracker!.pending.add(entry);
+  tracker!.entries.set(result, entry);
+  tracker!.registry.register(result, entry, result);
+}
+
+/**
+ * Stop tracking a Result, returning its entry if it was an unhandled Err.
+ */
+function handle(result: Result<unknown, unknown>): UnhandledErr | undefined {
+  const entry = tracker?.entries.get(result);
+  if (!entry) return undefined;
+
+  tracker!.pending.delete(entry);
+  tracker!.entries.delete(result);
+  tracker!.registry.unregister(result);
+
+  return entry;
+}
+
+/**
+ * Wrap a method of Result so that calling it handles the Result, unless it returns the same Err.
+ */
+function handling(
+  method: (...args: unknown[]) => unknown
+): (...args: unknown[]) => unknown {
+  return function (this: Result<unknown, unknown>, ...args: unknown[]) {
+    const entry = handle(this);
+    const output = method.apply(this, args);
+
+    if (entry && output === this && tracker) watch(this, entry);
+
+    return output;
+  };
+}
+
+/**
+ * Start tracking Errs, reporting those which are garbage collected before being handled.
+ *
+ * @param {MustUseOptions} options Options for reporting unhandled Errs.
+ */
+export function enableMustUse(options: MustUseOptions = {}): void {
+  disableMustUse();
+
+  const { onUnhandled = logUnhandled } = options;
+  const pending = new Set<UnhandledErr>();
+  const methods = new Map<PropertyKey, PropertyDescriptor>();
+
+  const registry = new FinalizationRegistry<UnhandledErr>((entry) => {
+    if (pending.delete(entry)) onUnhandled(entry);
+  });
+
+  for (const key of Reflect.ownKeys(Result.prototype)) {
+    const descriptor = Object.getOwnPropertyDescriptor(Result.prototype, key)!;
+    if (key === "constructor" || typeof descriptor.value !== "function") {
+      continue;
+    }
+
+    methods.set(key, descriptor);
+    Object.defineProperty(Result.prototype, key, {
+      ...descriptor,
+      value: handling(descriptor.value),
+    });
+  }
+
+  tracker = { registry, pending, entries: new WeakMap(), methods };
+  tracking = true;
+}
+
+/**
+ * Stop tracking Errs, forgetting any which are still unhandled.
+ */
+export function disableMustUse(): void {
+  if (!tracker) return;
+
+  for (const [key, descriptor] of tracker.methods) {
+    Object.defineProperty(Result.prototype, key, descriptor);
+  }
+
+  tracker.pending.clear();
+  tracker = undefined;
+  tracking = false;
+}
+
+/**
+ * Returns true if Errs are being tracked.
+ *
+ * @returns {boolean}
+ */
+export function isMustUseEnabled(): boolean {
+  return tracking;
+}
+
+/**
+ * Returns every tracked Err which has not been handled yet, whether or not it is still reachable.
+ *
+ * @returns {Array<UnhandledErr>}
+ */
+export function unhandledErrs(): Array<UnhandledErr> {
+  return [...(tracker?.pending ?? [])];
+}
@@ -1,11 +1,73 @@
-import { Err, Ok, Result } from "./result.ts";
+import { ErrMessage, NotStringErr, Ok, Result } from "./result.ts";
+import { matchArm, OptionArms } from "./match.ts";
+import {
+  GenYield,
+  runGen,
+  runGenAsync,
+  variantIterator,
+  VariantIterator,
+} from "./gen.ts";
+import {
+  ErrorRegistry,
+  OptionJSON,
+  revive,
+  reviver,
+  serializeErrors,
+  tagKey,
+} from "./json.ts";
+import { variantKey, variantOf } from "./brand.ts";
+import { Comparator, compare, equal, Equality, hashKey } from "./equality.ts";
+import {
+  denoInspect,
+  format,
+  Inspect,
+  inspectDeno,
+  inspectNode,
+  InspectOptions,
+  nodeInspect,
+} from "./inspect.ts";
 
 /**
  * The primitive None value.
  *
  * _Note: To construct a None variant Option, please use `None()` instead._
+ * It is registered globally, so that every copy of this library shares it.
  */
-export const none = Symbol("None");
+export const none: unique symbol = Symbol.for("optionals.None");
+
+/**
+ * An Option narrowed to the Some variant, exposing the contained `value`.
+ */
+export type SomeOption<T> = Option<T> & { readonly value: T };
+
+/**
+ * An Option narrowed to the None variant, whose `value` is always `undefined`.
+ */
+export type NoneOption<T = never> = Option<T> & { readonly value?: never };
+
+/**
+ * The Some type of an Option.
+ */
+export type SomeOf<O> = O extends Option<infer T> ? T : never;
+
+/**
+ * The type of a property, excluding `null` and `undefined` of both the object and the property.
+ */
+export type PropOf<T, K extends keyof NonNullable<T>> = NonNullable<
+  NonNullable<T>[K]
+>;
+
+/**
+ * Maps a tuple of Options to a tuple of their Some types.
+ */
+export type SomeTuple<O extends readonly unknown[]> = {
+  -readonly [K in keyof O]: SomeOf<O[K]>;
+};
+
+/**
+ * Maps a record of Options to a record of their Some types.
+ */
+export type SomeRecord<O> = { [K in keyof O]: SomeOf<O[K]> };
 
 /**
  * A Rust-like Option class.
@@ -43,30 +105,79 @@ export class Option<T> {
     return `Option`;
   }
 
+  /**
+   * The variant of the Option, read by `Option.isOption`, `Some` and `None` so that they recognise Options from any copy of this library.
+   */
+  get [variantKey](): "Some" | "None" {
+    return this.isSome() ? "Some" : "None";
+  }
+
+  /**
+   * Converts Option into a String such as `Some(5)` or `None`.
+   *
+   * @returns {string}
+   */
+  toString(): string {
+    return format(this);
+  }
+
+  /**
+   * Renders Option as `Some(5)` or `None` in `console.log` and `Deno.inspect`.
+   */
+  [denoInspect](inspect: Inspect, options: InspectOptions): string {
+    if (this.isSome()) {
+      return inspectDeno("Some", this.val, inspect, options);
+    }
+
+    return "None";
+  }
+
+  /**
+   * Renders Option as `Some(5)` or `None` in `console.log` and `util.inspect` under Node.
+   */
+  [nodeInspect](
+    depth: number | null,
+    options: InspectOptions,
+    inspect: Inspect
+  ): string {
+    if (this.isSome()) {
+      return inspectNode("Some", this.val, depth, options, inspect);
+    }
+
+    return "None";
+  }
+
   /**
    * Iterator support for Option.
    *
    * _Note: This method will only yeild if the Option is Some._
-   * @returns {IterableIterator<T>}
+   * When delegated to with `yield*` inside of `Option.gen`, the Some value is returned instead.
+   * @returns {VariantIterator<T, never>}
    */
-  *[Symbol.iterator]() {
-    if (this.isSome()) yield this.val;
+  [Symbol.iterator](): VariantIterator<T, never> {
+    return variantIterator(this.isSome(), this.val as T, this);
   }
 
   /**
-   * Returns true if contained value isnt None.
+   * Returns true if contained value isnt None, narrowing it to a `SomeOption`.
    * @returns {boolean}
+   * @example
+   * ```ts
+   * if (opt.isSome()) {
+   *   console.log(opt.value);
+   * }
+   * ```
    */
-  isSome(): boolean {
+  isSome(): this is SomeOption<T> {
     return this.val !== none;
   }
 
   /**
-   * Returns true if contained value is None.
+   * Returns true if contained value is None, narrowing it to a `NoneOption`.
    *
    * @returns {boolean}
    */
-  isNone(): boolean {
+  isNone(): this is NoneOption<T> {
     return this.val === none;
   }
 
@@ -127,6 +238,37 @@ export class Option<T> {
     return this.val as T;
   }
 
+  /**
+   * Returns the contained Some value, or `null` if the Option is None.
+   *
+   * @returns {T | null}
+   */
+  toNullable(): T | null {
+    if (this.isSome()) {
+      return this.val as T;
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns the contained Some value, or `undefined` if the Option is None.
+   *
+   * @returns {T | undefined}
+   *
+   * @example
+   * ```ts
+   * element.title = Option.get(user, "profile", "bio").toUndefined();
+   * ```
+   */
+  toUndefined(): T | undefined {
+    if (this.isSome()) {
+      return this.val as T;
+    }
+
+    return undefined;
+  }
+
   /**
    * Maps an Option<T> to Option<U> by applying a function to a contained Some value, leaving None values untouched.
    *
@@ -172,6 +314,7 @@ export class Option<T> {
   /**
    * Transforms the `Option<T>` into a `Result<T, E>`, mapping Some to Ok and None to Err.
    *
+   * _Note: Like `Err`, a string is converted into an `Error`, so the Err type may not include `string`._
    * @param {E} err An error to return if the Option is None.
    * @returns {Result<T, E>}
    *
@@ -180,12 +323,322 @@ export class Option<T> {
    * const result = Some(2).okOr("Error"); // => Ok(2)
    * ```
    */
-  okOr<E extends Error>(err: E | string): Result<T, E> {
+  okOr(err: string): Result<T, Error>;
+  okOr<E = Error>(err: ErrMessage<E>): Result<T, E>;
+  okOr<E>(err: E, ...check: NotStringErr<E>): Result<T, E>;
+  okOr<E>(err: E | string): Result<T, E> {
     if (this.isSome()) {
       return Ok(this.val as T);
-    } else {
-      return Err(err);
     }
+
+    return new Result<T, E>(
+      (typeof err === "string" ? new Error(err) : err) as E,
+      "Err"
+    );
+  }
+
+  /**
+   * Transforms the `Option<T>` into a `Result<T, E>`, mapping Some to Ok and None to an Err computed from a closure.
+   *
+   * _Note: Like `Err`, a string is converted into an `Error`, so the Err type may not include `string`._
+   * @param {Function} fn A function that computes an error.
+   * @returns {Result<T, E>}
+   */
+  okOrElse(fn: () => string): Result<T, Error>;
+  okOrElse<E = Error>(fn: () => ErrMessage<E>): Result<T, E>;
+  okOrElse<E>(fn: () => E, ...check: NotStringErr<E>): Result<T, E>;
+  okOrElse<E>(fn: () => E | string): Result<T, E> {
+    if (this.isSome()) {
+      return Ok(this.val as T);
+    }
+
+    const err = fn();
+    return new Result<T, E>(
+      (typeof err === "string" ? new Error(err) : err) as E,
+      "Err"
+    );
+  }
+
+  /**
+   * Returns None if the Option is None, otherwise calls `fn` with the contained value and returns the result.
+   *
+   * @param {Function} fn A function returning an Option.
+   * @returns {Option<U>}
+   */
+  andThen<U>(fn: (input: T) => Option<U>): Option<U> {
+    if (this.isSome()) {
+      return fn(this.val as T);
+    }
+
+    return this as unknown as Option<U>;
+  }
+
+  /**
+   * Returns a property of the contained Some value, or None if either is missing.
+   *
+   * @param {K} key The key of the property.
+   * @returns {Option<PropOf<T, K>>}
+   *
+   * @example
+   * ```ts
+   * Some(user).prop("address").prop("city") // => Option<string>
+   * ```
+   */
+  prop<K extends keyof NonNullable<T>>(key: K): Option<PropOf<T, K>> {
+    if (this.isSome()) {
+      return Option.fromNullable((this.val as NonNullable<T>)[key]);
+    }
+
+    return this as unknown as Option<PropOf<T, K>>;
+  }
+
+  /**
+   * Returns None if the Option is None, otherwise returns `and`.
+   *
+   * @param {Option<U>} and An alternative Option value
+   * @returns {Option<U>}
+   */
+  and<U>(and: Option<U>): Option<U> {
+    if (this.isSome()) {
+      return and;
+    }
+
+    return this as unknown as Option<U>;
+  }
+
+  /**
+   * Returns the Option if it contains a value, otherwise calls `fn` and returns the result.
+   *
+   * @param {Function} fn A function returning an Option.
+   * @returns {Option<T>}
+   */
+  orElse(fn: () => Option<T>): Option<T> {
+    if (this.isSome()) {
+      return this;
+    }
+
+    return fn();
+  }
+
+  /**
+   * Returns Some if exactly one of self and `xor` is Some, otherwise returns None.
+   *
+   * @param {Option<T>} xor An alternative Option value
+   * @returns {Option<T>}
+   */
+  xor(xor: Option<T>): Option<T> {
+    if (this.isSome() && xor.isNone()) {
+      return this;
+    }
+
+    if (this.isNone() && xor.isSome()) {
+      return xor;
+    }
+
+    return new Option<T>(none);
+  }
+
+  /**
+   * Returns None if the Option is None or the predicate returns false, otherwise returns self.
+   *
+   * @param {Function} predicate A function testing the contained value.
+   * @returns {Option<T>}
+   */
+  filter<S extends T>(predicate: (input: T) => input is S): Option<S>;
+  filter(predicate: (input: T) => boolean): Option<T>;
+  filter(predicate: (input: T) => boolean): Option<T> {
+    if (this.isSome() && predicate(this.val as T)) {
+      return this;
+    }
+
+    return new Option<T>(none);
+  }
+
+  /**
+   * Zips self with another Option, returning Some of a tuple if both are Some, otherwise None.
+   *
+   * @param {Option<U>} other Another Option.
+   * @returns {Option<[T, U]>}
+   */
+  zip<U>(other: Option<U>): Option<[T, U]> {
+    return this.zipWith(other, (left, right): [T, U] => [left, right]);
+  }
+
+  /**
+   * Zips self and another Option with a function, returning Some of its output if both are Some, otherwise None.
+   *
+   * @param {Option<U>} other Another Option.
+   * @param {Function} fn A function combining both values.
+   * @returns {Option<R>}
+   */
+  zipWith<U, R>(other: Option<U>, fn: (left: T, right: U) => R): Option<R> {
+    if (this.isSome() && other.isSome()) {
+      return new Option<R>(fn(this.val as T, other.unwrap()));
+    }
+
+    return new Option<R>(none);
+  }
+
+  /**
+   * Unzips an Option containing a tuple into a tuple of Options.
+   *
+   * @returns {[Option<A>, Option<B>]}
+   */
+  unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+    if (this.isSome()) {
+      const [left, right] = this.unwrap();
+      return [new Option<A>(left), new Option<B>(right)];
+    }
+
+    return [new Option<A>(none), new Option<B>(none)];
+  }
+
+  /**
+   * Calls `fn` with the contained value if Some, then returns self.
+   *
+   * @param {Function} fn A function to call with the contained value.
+   * @returns {Option<T>}
+   */
+  inspect(fn: (input: T) => void): Option<T> {
+    if (this.isSome()) {
+      fn(this.val as T);
+    }
+
+    return this;
+  }
+
+  /**
+   * Computes a fallback from a closure (if None), or applies a function to the contained value.
+   *
+   * @param {Function} fallback A function that computes a default value.
+   * @param {Function} fn A mapping function.
+   * @returns {U}
+   */
+  mapOrElse<U>(fallback: () => U, fn: (input: T) => U): U {
+    if (this.isSome()) {
+      return fn(this.val as T);
+    }
+
+    return fallback();
+  }
+
+  /**
+   * Takes the value out of the Option, leaving None in its place.
+   *
+   * @returns {Option<T>} The previous Option.
+   */
+  take(): Option<T> {
+    const taken = new Option<T>(this.val);
+    this.val = none;
+
+    return taken;
+  }
+
+  /**
+   * Replaces the contained value with `value`, returning the previous Option.
+   *
+   * @param {T} value The new Some value.
+   * @returns {Option<T>} The previous Option.
+   */
+  replace(value: T): Option<T> {
+    const replaced = new Option<T>(this.val);
+    this.val = value;
+
+    return replaced;
+  }
+
+  /**
+   * Inserts a value computed from a closure if the Option is None, then returns the contained value.
+   *
+   * @param {Function} fn A function that computes a new value.
+   * @returns {T}
+   */
+  getOrInsertWith(fn: () => T): T {
+    if (this.isNone()) {
+      this.val = fn();
+    }
+
+    return this.val as T;
+  }
+
+  /**
+   * Returns true if the Option is Some and the contained value matches a predicate.
+   *
+   * @param {Function} predicate A function testing the contained value.
+   * @returns {boolean}
+   */
+  isSomeAnd(predicate: (input: T) => boolean): boolean {
+    return this.isSome() && predicate(this.val as T);
+  }
+
+  /**
+   * Returns true if the Option is None or the contained value matches a predicate.
+   *
+   * @param {Function} predicate A function testing the contained value.
+   * @returns {boolean}
+   */
+  isNoneOr(predicate: (input: T) => boolean): boolean {
+    return this.isNone() || predicate(this.val as T);
+  }
+
+  /**
+   * Returns true if the Option is Some and contains the given value, compared using `Object.is`.
+   *
+   * @param {T} value A value to compare against.
+   * @returns {boolean}
+   */
+  contains(value: T): boolean {
+    return this.isSome() && Object.is(this.val, value);
+  }
+
+  /**
+   * Transposes an `Option<Result<T, E>>` into a `Result<Option<T>, E>`.
+   *
+   * @returns {Result<Option<T>, E>}
+   *
+   * @example
+   * ```ts
+   * Some(Ok(5)).transpose(); // => Ok(Some(5))
+   * ```
+   */
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+    if (this.isSome()) {
+      const result = this.unwrap();
+      if (result.isErr()) return result as unknown as Result<Option<U>, E>;
+
+      return Ok(new Option<U>(result.unwrap()));
+    }
+
+    return Ok(new Option<U>(none));
+  }
+
+  /**
+   * Calls the arm matching the variant, returning its output.
+   *
+   * Arms may be a handler, a list of guarded or literal cases ending with a catch-all handler,
+   * or nested arms when the contained value is itself an Option or a Result.
+   *
+   * @param {OptionArms<T, U>} arms An arm for each variant.
+   * @returns {U}
+   *
+   * @example
+   * ```ts
+   * const label = opt.match({
+   *   Some: [
+   *     [0, () => "zero"],
+   *     [(n) => n < 0, () => "negative"],
+   *     (n) => `positive ${n}`,
+   *   ],
+   *   None: () => "nothing",
+   * });
+   * ```
+   */
+  match<U>(arms: OptionArms<T, U>): U {
+    if (this.isSome()) {
+      return matchArm(arms.Some, this.val as T);
+    }
+
+    return arms.None();
   }
 
   /**
@@ -216,14 +669,343 @@ export class Option<T> {
   }
 
   /**
-   * Converts from Option<Option<T> to Option<T>
+   * Returns true if both Options are None, or both are Some with equal values.
+   *
+   * @param {Option<T>} other The Option to compare with.
+   * @param {Function} eq Compares the Some values, defaults to structural equality with `equal`.
+   * @returns {boolean}
+   *
+   * @example
+   * ```ts
+   * Some({ id: 1 }).equals(Some({ id: 1 })) // => true
+   * Some("a").equals(Some("A"), (a, b) => a.toLowerCase() === b.toLowerCase()) // => true
+   * ```
+   */
+  equals(other: Option<T>, eq: Equality<T> = equal): boolean {
+    if (this.isSome() && other.isSome()) {
+      return eq(this.val as T, other.peek() as T);
+    }
+
+    return this.isNone() && other.isNone();
+  }
+
+  /**
+   * Order this Option against another like Rust, with None before every Some.
+   *
+   * @param {Option<T>} other The Option to compare with.
+   * @param {Function} cmp Compares the Some values, defaults to `compare`.
+   * @returns {number} A negative number if this Option sorts first, a positive number if the other does, or zero.
+   */
+  compare(other: Option<T>, cmp: Comparator<T> = compare): number {
+    if (this.isSome() && other.isSome()) {
+      return cmp(this.val as T, other.peek() as T);
+    }
+
+    return Number(this.isSome()) - Number(other.isSome());
+  }
+
+  /**
+   * Returns a string which is the same for every Option this one `equals`, for use as a Map or Set key.
+   *
+   * @returns {string}
+   *
+   * @example
+   * ```ts
+   * Some([1, 2]).hashKey() // => "Some([1,2])"
+   * ```
+   */
+  hashKey(): string {
+    if (this.isSome()) {
+      return `Some(${hashKey(this.val)})`;
+    }
+
+    return "None";
+  }
+
+  /**
+   * Converts the Option into its tagged wire format, called by `JSON.stringify`.
+   *
+   * @returns {OptionJSON<T>}
+   *
+   * @example
+   * ```ts
+   * JSON.stringify({ nickname: None() }) // => '{"nickname":{"$optionals":"None"}}'
+   * ```
+   */
+  toJSON(): OptionJSON<T> {
+    if (this.isSome()) {
+      return { [tagKey]: "Some", value: serializeErrors(this.val) as T };
+    }
+
+    return { [tagKey]: "None" };
+  }
+
+  /**
+   * Converts from Option<Option<T>> to Option<T>
    * @returns Option<T>
    */
-  flatten(): Option<T> {
-    if (this.val instanceof Option) {
-      return this.val
+  flatten<U>(this: Option<Option<U>>): Option<U>;
+  flatten(): Option<T>;
+  flatten(): Option<unknown> {
+    if (Option.isOption(this.val)) {
+      return this.val;
     }
-    return this
+    return this;
+  }
+
+  /**
+   * Run a generator block, using `yield*` to unwrap Options like Rust's `?` operator.
+   * The block short-circuits on the first None.
+   *
+   * _Note: Please use `genAsync` to run asynchronous generator blocks._
+   * @param {Function} fn The generator block to run
+   * @returns {Option<T>} The returned value as Some, or None
+   *
+   * @example
+   * ```ts
+   * const city = Option.gen(function* () {
+   *   const user = yield* findUser(id);
+   *   const address = yield* user.address;
+   *   return address.city;
+   * });
+   * ```
+   */
+  static gen<T>(fn: () => Generator<GenYield, T, unknown>): Option<T> {
+    return runGen<T, Option<T>>(fn(), Some, Option.shortCircuit);
+  }
+
+  /**
+   * Run an asynchronous generator block, using `yield*` to unwrap Options like Rust's `?` operator.
+   * The block short-circuits on the first None.
+   *
+   * _Note: Please use `gen` to run synchronous generator blocks._
+   * @param {Function} fn The asynchronous generator block to run
+   * @returns {Promise<Option<T>>} The returned value as Some, or None
+   */
+  static genAsync<T>(
+    fn: () => AsyncGenerator<GenYield, T, unknown>
+  ): Promise<Option<T>> {
+    return runGenAsync<T, Option<T>>(fn(), Some, Option.shortCircuit);
+  }
+
+  private static shortCircuit<T>(variant: unknown): Option<T> {
+    if (Option.isOption(variant) && variant.isNone()) {
+      return new Option<T>(none);
+    }
+
+    throw new TypeError("Option.gen blocks may only yield* Options");
+  }
+
+  /**
+   * Combine a tuple of Options into an Option of a tuple, stopping at the first None.
+   *
+   * @param {[...O]} input A tuple of Options
+   * @returns {Option<SomeTuple<O>>}
+   *
+   * @example
+   * ```ts
+   * const res = Option.all([Some(1), Some("two")]); // => Some([1, "two"])
+   * ```
+   */
+  static all<O extends readonly Option<unknown>[]>(
+    input: readonly [...O]
+  ): Option<SomeTuple<O>> {
+    return Option.collect(input) as unknown as Option<SomeTuple<O>>;
+  }
+
+  /**
+   * Collect an iterable of Options into an Option of an array, stopping at the first None.
+   *
+   * @param {Iterable<Option<T>>} input An iterable of Options
+   * @returns {Option<Array<T>>}
+   */
+  static collect<T>(input: Iterable<Option<T>>): Option<Array<T>> {
+    const values: Array<T> = [];
+
+    for (const option of input) {
+      if (option.isNone()) return new Option<Array<T>>(none);
+      values.push(option.unwrap());
+    }
+
+    return new Option<Array<T>>(values);
+  }
+
+  /**
+   * Combine a record of Options into an Option of a record, stopping at the first None.
+   *
+   * @param {O} input A record of Options
+   * @returns {Option<SomeRecord<O>>}
+   *
+   * @example
+   * ```ts
+   * const point = Option.struct({ x: parse(a), y: parse(b) }); // => Some({ x, y }) or None
+   * ```
+   */
+  static struct<O extends Record<string, Option<unknown>>>(
+    input: O
+  ): Option<SomeRecord<O>> {
+    const values: Record<string, unknown> = {};
+
+    for (const [key, option] of Object.entries(input)) {
+      if (option.isNone()) return new Option<SomeRecord<O>>(none);
+      values[key] = option.unwrap();
+    }
+
+    return new Option<SomeRecord<O>>(values as SomeRecord<O>);
+  }
+
+  /**
+   * Returns true if two Options are equal, comparing their Some values with `equal`.
+   *
+   * @param {Option<T>} left The first Option.
+   * @param {Option<T>} right The second Option.
+   * @returns {boolean}
+   */
+  static equals<T>(left: Option<T>, right: Option<T>): boolean {
+    return left.equals(right);
+  }
+
+  /**
+   * Order two Options like Rust, with None before every Some, for use with `Array.prototype.sort`.
+   *
+   * @param {Option<T>} left The first Option.
+   * @param {Option<T>} right The second Option.
+   * @returns {number}
+   *
+   * @example
+   * ```ts
+   * [Some(2), None(), Some(1)].sort(Option.compare) // => [None(), Some(1), Some(2)]
+   * ```
+   */
+  static compare<T>(left: Option<T>, right: Option<T>): number {
+    return left.compare(right);
+  }
+
+  /**
+   * Rebuild an Option from its tagged wire format, along with any Options and Results nested inside of it.
+   *
+   * @param {string | OptionJSON<T>} json A JSON string, or an already parsed object.
+   * @param {ErrorRegistry} registry The registry used to rebuild Errors held by nested Results.
+   * @returns {Option<T>} The rebuilt Option.
+   *
+   * @example
+   * ```ts
+   * const user = Option.fromJSON<User>('{"$optionals":"Some","value":{"name":"Ferris"}}');
+   * ```
+   */
+  static fromJSON<T>(
+    json: string | OptionJSON<T>,
+    registry?: ErrorRegistry
+  ): Option<T> {
+    const option =
+      typeof json === "string"
+        ? JSON.parse(json, reviver(registry))
+        : revive(json, registry);
+
+    if (!(option instanceof Option)) {
+      throw new TypeError("Expected a tagged Some or None");
+    }
+
+    return option;
+  }
+
+  /**
+   * Returns true if a value is an Option, including Options from other copies of this library or other realms.
+   *
+   * _Note: Unlike `instanceof Option`, this recognises Options from the npm and deno.land builds loaded side by side._
+   * @param {unknown} value The value to check.
+   * @returns {boolean}
+   */
+  static isOption(value: unknown): value is Option<unknown> {
+    const variant = variantOf(value);
+    return variant === "Some" || variant === "None";
+  }
+
+  /**
+   * Convert a value into an Option, with `null` and `undefined` becoming None.
+   *
+   * @param {T} value The value to convert.
+   * @returns {Option<NonNullable<T>>}
+   *
+   * @example
+   * ```ts
+   * const port = Option.fromNullable(Deno.env.get("PORT")); // => Option<string>
+   * ```
+   */
+  static fromNullable<T>(value: T): Option<NonNullable<T>> {
+    if (value === null || value === undefined) {
+      return new Option<NonNullable<T>>(none);
+    }
+
+    return new Option<NonNullable<T>>(value as NonNullable<T>);
+  }
+
+  /**
+   * Follow a path of keys into an object, returning None as soon as a value along it is `null` or `undefined`.
+   *
+   * _Note: Keys are checked against the type of the object, so paths of up to five keys are typed._
+   * @param {T} input The object to start from.
+   * @param {PropertyKey[]} path The keys to follow.
+   * @returns {Option<unknown>} The value at the end of the path.
+   *
+   * @example
+   * ```ts
+   * Option.get(config, "servers", 0, "host") // => Option<string>
+   * Option.get(config, "severs") // => Compile error
+   * ```
+   */
+  static get<T, A extends keyof NonNullable<T>>(
+    input: T,
+    a: A
+  ): Option<PropOf<T, A>>;
+  static get<T, A extends keyof NonNullable<T>, B extends keyof PropOf<T, A>>(
+    input: T,
+    a: A,
+    b: B
+  ): Option<PropOf<PropOf<T, A>, B>>;
+  static get<
+    T,
+    A extends keyof NonNullable<T>,
+    B extends keyof PropOf<T, A>,
+    C extends keyof PropOf<PropOf<T, A>, B>
+  >(input: T, a: A, b: B, c: C): Option<PropOf<PropOf<PropOf<T, A>, B>, C>>;
+  static get<
+    T,
+    A extends keyof NonNullable<T>,
+    B extends keyof PropOf<T, A>,
+    C extends keyof PropOf<PropOf<T, A>, B>,
+    D extends keyof PropOf<PropOf<PropOf<T, A>, B>, C>
+  >(
+    input: T,
+    a: A,
+    b: B,
+    c: C,
+    d: D
+  ): Option<PropOf<PropOf<PropOf<PropOf<T, A>, B>, C>, D>>;
+  static get<
+    T,
+    A extends keyof NonNullable<T>,
+    B extends keyof PropOf<T, A>,
+    C extends keyof PropOf<PropOf<T, A>, B>,
+    D extends keyof PropOf<PropOf<PropOf<T, A>, B>, C>,
+    E extends keyof PropOf<PropOf<PropOf<PropOf<T, A>, B>, C>, D>
+  >(
+    input: T,
+    a: A,
+    b: B,
+    c: C,
+    d: D,
+    e: E
+  ): Option<PropOf<PropOf<PropOf<PropOf<PropOf<T, A>, B>, C>, D>, E>>;
+  static get(input: unknown, ...path: PropertyKey[]): Option<unknown> {
+    let value = input;
+
+    for (const key of path) {
+      if (value === null || value === undefined) break;
+      value = (value as Record<PropertyKey, unknown>)[key];
+    }
+
+    return Option.fromNullable(value);
   }
 
   /**
@@ -263,6 +1045,30 @@ export class Option<T> {
   }
 }
 
+Object.defineProperty(Option.prototype, "value", {
+  get(this: Option<unknown>) {
+    return this.isSome() ? this.unwrap() : undefined;
+  },
+});
+
+/**
+ * The signature of `Some`, which also narrows Options when used with `instanceof`.
+ */
+export interface SomeConstructor {
+  <T>(input: T): Option<T>;
+  [Symbol.hasInstance]<T>(instance: Option<T>): instance is SomeOption<T>;
+  [Symbol.hasInstance](instance: unknown): instance is SomeOption<unknown>;
+}
+
+/**
+ * The signature of `None`, which also narrows Options when used with `instanceof`.
+ */
+export interface NoneConstructor {
+  <T>(): Option<T>;
+  [Symbol.hasInstance]<T>(instance: Option<T>): instance is NoneOption<T>;
+  [Symbol.hasInstance](instance: unknown): instance is NoneOption;
+}
+
 /**
  * Construct an Option from a value other than None.
  *
@@ -283,24 +1089,24 @@ export class Option<T> {
  * const foo = Some("Value");
  *
  * if (foo instanceof Some) {
- *  // Do something
+ *  console.log(foo.value);
  * }
  * ```
  */
-export function Some<T>(input: T): Option<T> {
+export const Some = function Some<T>(input: T): Option<T> {
   return new Option<T>(input as T);
-}
+} as SomeConstructor;
 
 Object.defineProperty(Some, Symbol.hasInstance, {
-  value: <T>(instance: Option<T>): boolean => {
-    if (typeof instance !== "object") return false;
-    return instance?.isSome() || false;
+  value: (instance: unknown): boolean => {
+    return variantOf(instance) === "Some";
   },
 });
 
 /**
  * Construct the None variant of Option.
  *
+ * _Note: Each call returns a new Option rather than a shared one, as `take`, `replace` and `getOrInsertWith` change an Option in place._
  * @returns {Option<T>}
  * @example
  * ```ts
@@ -319,13 +1125,12 @@ Object.defineProperty(Some, Symbol.hasInstance, {
  * }
  * ```
  */
-export function None<T>(): Option<T> {
+export const None = function None<T>(): Option<T> {
   return new Option<T>(none);
-}
+} as NoneConstructor;
 
 Object.defineProperty(None, Symbol.hasInstance, {
-  value: <T>(instance: Option<T>): boolean => {
-    if (typeof instance !== "object") return false;
-    return instance?.isNone() || false;
+  value: (instance: unknown): boolean => {
+    return variantOf(instance) === "None";
   },
 });
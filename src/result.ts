@@ -2,10 +2,142 @@
 /* eslint-disable no-prototype-builtins */
 
 import { None, Option, Some } from "./option.ts";
+import { matchArm, ResultArms } from "./match.ts";
+import {
+  runGen,
+  runGenAsync,
+  GenYield,
+  ShortCircuitOf,
+  variantIterator,
+  VariantIterator,
+} from "./gen.ts";
+import { ErrArms, matchTag } from "./tagged_error.ts";
+import { retry, RetryError, RetryOptions } from "./retry.ts";
+import {
+  AbortError,
+  FromAsyncOptions,
+  TimeoutError,
+  withCancellation,
+} from "./cancel.ts";
+import {
+  ErrJSON,
+  ErrorRegistry,
+  ResultJSON,
+  revive,
+  reviver,
+  serializeErrors,
+  tagKey,
+} from "./json.ts";
+import { compare, equal, Equality, hashKey, ResultOrder } from "./equality.ts";
+import { variantKey, variantOf } from "./brand.ts";
+import {
+  denoInspect,
+  format,
+  Inspect,
+  inspectDeno,
+  inspectNode,
+  InspectOptions,
+  nodeInspect,
+} from "./inspect.ts";
+import {
+  disableMustUse,
+  enableMustUse,
+  MustUseOptions,
+  trackErr,
+  tracking,
+} from "./must_use.ts";
+
+/**
+ * The variants a Result can take.
+ */
+export type ResultVariant = "Ok" | "Err";
+
+/**
+ * Returns true if a value is an Error, or inherits from one.
+ */
+function isError(value: unknown): value is Error {
+  return (
+    value instanceof Error ||
+    (!!value && typeof value === "object" && Error.isPrototypeOf(value))
+  );
+}
+
+/**
+ * Indent every line of a multiline description, starting the first with a prefix.
+ */
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line, index) => (index ? " ".repeat(prefix.length) : prefix) + line)
+    .join("\n");
+}
+
+/**
+ * Options for `Result.report`.
+ */
+export interface ReportOptions {
+  /**
+   * Whether to highlight the report with ANSI colours, defaults to false.
+   */
+  color?: boolean;
+}
+
+/**
+ * A Result narrowed to the Ok variant, exposing the contained `value`.
+ */
+export type OkResult<T, E = never> = Result<T, E> & { readonly value: T };
+
+/**
+ * A Result narrowed to the Err variant, exposing the contained `error`.
+ */
+export type ErrResult<E, T = never> = Result<T, E> & { readonly error: E };
+
+/**
+ * The Ok type of a Result.
+ */
+export type OkOf<R> = R extends Result<infer T, unknown> ? T : never;
+
+/**
+ * The Err type of a Result.
+ */
+export type ErrOf<R> = R extends Result<unknown, infer E> ? E : never;
+
+/**
+ * Maps a tuple of Results to a tuple of their Ok types.
+ */
+export type OkTuple<R extends readonly unknown[]> = {
+  -readonly [K in keyof R]: OkOf<R[K]>;
+};
+
+/**
+ * Maps a record of Results to a record of their Ok types.
+ */
+export type OkRecord<R> = { [K in keyof R]: OkOf<R[K]> };
+
+/**
+ * The strings `Err` and `okOr` accept for an Err type, which are converted into an `Error`: `string` when an `Error` is a valid Err value that cannot be mistaken for a string, otherwise `never`.
+ */
+export type ErrMessage<E> = [Extract<E, string>] extends [never]
+  ? Error extends E
+    ? string
+    : never
+  : never;
+
+/**
+ * The extra parameters of `Err` and `okOr` for an Err value, requiring an impossible argument when the Err type may be a string, since strings are converted into an `Error`.
+ *
+ * _Note: To hold a string as the Err value, use `new Result(input, "Err")`._
+ */
+export type NotStringErr<E> = [Extract<E, string>] extends [never]
+  ? []
+  : [stringsBecomeErrors: never];
 
 /**
  * A Rust-like Result class.
  *
+ * The variant is stored alongside the value, so an Ok may hold an Error and an
+ * Err may hold any value such as a string, an enum or a structured object.
+ *
  * _Note: Please use either Ok or Err to construct Results._
  *
  * @example
@@ -18,18 +150,27 @@ import { None, Option, Some } from "./option.ts";
  *
  * ```
  */
-export class Result<T, E extends Error> {
+export class Result<T, E = Error> {
   private val: T | E;
+  private readonly variant: ResultVariant;
 
   /**
    * A constructor for a Result.
    *
    * @param {T | E} input The Result value.
+   * @param {ResultVariant} variant The variant of the Result. When omitted, Errors are treated as Err and any other value as Ok.
    *
    * _Note: Please use either `Ok` or `Err` to construct Results._
    */
-  constructor(input: T | E) {
+  constructor(input: T, variant?: "Ok");
+  constructor(input: E, variant?: ResultVariant);
+  constructor(input: T | E, variant?: ResultVariant) {
     this.val = input;
+    this.variant = variant ?? (isError(input) ? "Err" : "Ok");
+
+    if (tracking && this.variant === "Err") {
+      trackErr(this, input);
+    }
   }
 
   /**
@@ -39,64 +180,98 @@ export class Result<T, E extends Error> {
     return `Result`;
   }
 
+  /**
+   * The variant of the Result, read by `Result.isResult`, `Ok` and `Err` so that they recognise Results from any copy of this library.
+   */
+  get [variantKey](): ResultVariant {
+    return this.variant;
+  }
+
+  /**
+   * Converts Result into a String such as `Ok({ id: 1 })` or `Err(TypeError: bad input)`.
+   *
+   * @returns {string}
+   */
+  toString(): string {
+    return format(this);
+  }
+
+  /**
+   * Renders Result as `Ok(value)` or `Err(error)` in `console.log` and `Deno.inspect`.
+   */
+  [denoInspect](inspect: Inspect, options: InspectOptions): string {
+    return inspectDeno(this.variant, this.val, inspect, options);
+  }
+
+  /**
+   * Renders Result as `Ok(value)` or `Err(error)` in `console.log` and `util.inspect` under Node.
+   */
+  [nodeInspect](
+    depth: number | null,
+    options: InspectOptions,
+    inspect: Inspect
+  ): string {
+    return inspectNode(this.variant, this.val, depth, options, inspect);
+  }
+
   /**
    * Iterator support for Result.
    *
    * _Note: This method will only yeild if the Result is Ok._
-   * @returns {IterableIterator<T>}
+   * When delegated to with `yield*` inside of `Result.gen`, the Ok value is returned instead.
+   * @returns {VariantIterator<T, E>}
    */
-  *[Symbol.iterator]() {
-    if (this.isOk()) yield this.val;
+  [Symbol.iterator](): VariantIterator<T, E> {
+    return variantIterator(this.isOk(), this.val as T, this);
   }
 
   /**
-   * Returns true if contained value isnt an error.
+   * Returns true if the Result is Ok, narrowing it to an `OkResult`.
    *
    * @returns {boolean}
+   * @example
+   * ```ts
+   * if (res.isOk()) {
+   *   console.log(res.value);
+   * }
+   * ```
    */
-  isOk(): boolean {
-    return !(
-      this.val instanceof Error ||
-      (this.val &&
-        typeof this.val === "object" &&
-        Error.isPrototypeOf(this.val))
-    );
+  isOk(): this is OkResult<T, E> {
+    return this.variant === "Ok";
   }
 
   /**
-   * Returns true if contained value is an error.
+   * Returns true if the Result is Err, narrowing it to an `ErrResult`.
    *
    * @returns {boolean}
+   * @example
+   * ```ts
+   * if (res.isErr()) {
+   *   console.error(res.error);
+   * }
+   * ```
    */
-  isErr(): boolean {
-    return (
-      this.val instanceof Error ||
-      (this.val &&
-        typeof this.val === "object" &&
-        Error.isPrototypeOf(this.val))
-    );
+  isErr(): this is ErrResult<E, T> {
+    return this.variant === "Err";
   }
 
-  private formatError(err: Error) {
-    err.stack = `${err.message}: ${
-      (this.val as E).stack
-        ? "\n\t" + ((this.val as E).stack as string).split("\n").join("\n\t")
-        : (this.val as E).message
-    }`;
-
-    throw err;
+  /**
+   * Throws an Error with a given message, caused by the contained value.
+   */
+  private panic(msg: string): never {
+    throw new Error(msg, { cause: this.val });
   }
 
   /**
    * Returns the contained Ok value, consuming the Result.
-   * Throws an Error with a given message if contained value is not Ok.
+   * Throws an Error with a given message if contained value is not Ok, with the Err value as its `cause`.
    *
    * @param {string} msg An error message to throw if contained value is an Error.
    * @returns {T}
    */
   expect(msg: string): T {
     if (this.isErr()) {
-      this.formatError(new Error(msg));
+      this.panic(msg);
     }
 
     return this.val as T;
@@ -107,25 +282,26 @@ export class Result<T, E extends Error> {
    * Throws an Error with a given message if contained value is not an Err.
    *
    * @param {string} msg An error message to throw if contained value is Ok.
-   * @returns {T}
+   * @returns {E}
    */
-  expectErr(msg: string): T {
-    if (this.isOk()) {
-      this.formatError(new Error(msg));
+  expectErr(msg: string): E {
+    if (this.isErr()) {
+      return this.error;
     }
 
-    return this.val as T;
+    this.panic(msg);
   }
 
   /**
    * Returns the contained Ok value, consuming the Result.
-   * Throws an Error if contained value is not Ok.
+   * Throws an Error if contained value is not Ok, with the Err value as its `cause`.
    *
    * @returns {T}
    */
   unwrap(): T {
     if (this.isErr()) {
-      this.formatError(new Error(`Unwrap called on ${(this.val as E).name}`));
+      const val = this.val as unknown;
+      this.panic(`Unwrap called on ${isError(val) ? val.name : "Err"}`);
     }
 
     return this.val as T;
@@ -183,7 +359,7 @@ export class Result<T, E extends Error> {
    */
   map<U>(fn: (input: T) => U): Result<U, E> {
     if (this.isOk()) {
-      return new Result<U, E>(fn(this.val as T));
+      return new Result<U, E>(fn(this.val as T), "Ok");
     }
 
     return this as unknown as Result<U, E>;
@@ -195,12 +371,53 @@ export class Result<T, E extends Error> {
    * @param {Function} fn A mapping function.
    * @returns {Result<T, U>}
    */
-  mapErr<U extends Error>(fn: (input: E) => U): Result<T, U> {
+  mapErr<U>(fn: (input: E) => U): Result<T, U> {
     if (this.isOk()) {
       return this as unknown as Result<T, U>;
     }
 
-    return new Result<T, U>(fn(this.val as E));
+    return new Result<T, U>(fn(this.val as E), "Err");
+  }
+
+  /**
+   * Wraps a contained Error value in a new Error with a given message, keeping the original as its `cause`.
+   *
+   * @param {string} msg A description of what was being done when the Error happened.
+   * @returns {Result<T, Error>}
+   *
+   * @example
+   * ```ts
+   * const config = readFile(path).context("loading config");
+   *
+   * console.error(Result.report(config.unwrapErr()));
+   * // Error: loading config
+   * //
+   * // Caused by:
+   * //     NotFound: No such file or directory
+   * ```
+   */
+  context(msg: string): Result<T, Error> {
+    if (this.isOk()) {
+      return this as unknown as Result<T, Error>;
+    }
+
+    const cause = this.val as E;
+    return new Result<T, Error>(new Error(msg, { cause }), "Err");
+  }
+
+  /**
+   * Wraps a contained Error value in a new Error with a lazily computed message, keeping the original as its `cause`.
+   *
+   * @param {Function} fn A function returning a description of what was being done when the Error happened.
+   * @returns {Result<T, Error>}
+   */
+  withContext(fn: (input: E) => string): Result<T, Error> {
+    if (this.isOk()) {
+      return this as unknown as Result<T, Error>;
+    }
+
+    const cause = this.val as E;
+    return new Result<T, Error>(new Error(fn(cause), { cause }), "Err");
   }
 
   /**
@@ -250,6 +467,230 @@ export class Result<T, E extends Error> {
     return None();
   }
 
+  /**
+   * Converts from `Result<T, E>` to `Option<E>`, discarding the Ok value.
+   *
+   * @returns {Option<E>}
+   */
+  err(): Option<E> {
+    if (this.isErr()) {
+      return Some(this.val as E);
+    }
+
+    return None();
+  }
+
+  /**
+   * Calls `fn` with the contained Ok value and returns its Result, leaving an Error value untouched.
+   * The error types of both Results are combined.
+   *
+   * @param {Function} fn A function returning a Result.
+   * @returns {Result<U, E | F>}
+   *
+   * @example
+   * ```ts
+   * const port: Result<number, ReadError | ParseError> = readFile(path).andThen(parsePort);
+   * ```
+   */
+  andThen<U, F = E>(fn: (input: T) => Result<U, F>): Result<U, E | F> {
+    if (this.isOk()) {
+      return fn(this.val as T);
+    }
+
+    return this as unknown as Result<U, E>;
+  }
+
+  /**
+   * Returns `and` if the Result is Ok, otherwise returns the Error value of self.
+   *
+   * @param {Result<U, F>} and An alternative Result value
+   * @returns {Result<U, E | F>}
+   */
+  and<U, F = E>(and: Result<U, F>): Result<U, E | F> {
+    if (this.isOk()) {
+      return and;
+    }
+
+    return this as unknown as Result<U, E>;
+  }
+
+  /**
+   * Calls `fn` with the contained Error value and returns its Result, leaving an Ok value untouched.
+   *
+   * @param {Function} fn A function returning a Result.
+   * @returns {Result<T | U, F>}
+   */
+  orElse<U = T, F = E>(fn: (input: E) => Result<U, F>): Result<T | U, F> {
+    if (this.isOk()) {
+      return this as unknown as Result<T, F>;
+    }
+
+    return fn(this.val as E);
+  }
+
+  /**
+   * Computes a fallback from the Error value (if Error), or applies a function to the contained value.
+   *
+   * @param {Function} fallback A function that computes a default value from the Error.
+   * @param {Function} fn A mapping function.
+   * @returns {U}
+   */
+  mapOrElse<U>(fallback: (input: E) => U, fn: (input: T) => U): U {
+    if (this.isOk()) {
+      return fn(this.val as T);
+    }
+
+    return fallback(this.val as E);
+  }
+
+  /**
+   * Calls `fn` with the contained Ok value, then returns self.
+   *
+   * @param {Function} fn A function to call with the contained value.
+   * @returns {Result<T, E>}
+   */
+  inspect(fn: (input: T) => void): Result<T, E> {
+    if (this.isOk()) {
+      fn(this.val as T);
+    }
+
+    return this;
+  }
+
+  /**
+   * Calls `fn` with the contained Error value, then returns self.
+   *
+   * @param {Function} fn A function to call with the contained Error.
+   * @returns {Result<T, E>}
+   */
+  inspectErr(fn: (input: E) => void): Result<T, E> {
+    if (this.isErr()) {
+      fn(this.val as E);
+    }
+
+    return this;
+  }
+
+  /**
+   * Returns true if the Result is Ok and the contained value matches a predicate.
+   *
+   * @param {Function} predicate A function testing the contained value.
+   * @returns {boolean}
+   */
+  isOkAnd(predicate: (input: T) => boolean): boolean {
+    return this.isOk() && predicate(this.val as T);
+  }
+
+  /**
+   * Returns true if the Result is Err and the contained Error matches a predicate.
+   *
+   * @param {Function} predicate A function testing the contained Error.
+   * @returns {boolean}
+   */
+  isErrAnd(predicate: (input: E) => boolean): boolean {
+    return this.isErr() && predicate(this.val as E);
+  }
+
+  /**
+   * Transposes a `Result<Option<T>, E>` into an `Option<Result<T, E>>`.
+   *
+   * @returns {Option<Result<T, E>>}
+   *
+   * @example
+   * ```ts
+   * Ok(Some(5)).transpose(); // => Some(Ok(5))
+   * ```
+   */
+  transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+    if (this.isOk()) {
+      const option = this.unwrap();
+      if (option.isNone()) return option as unknown as Option<Result<U, E>>;
+
+      return Some(new Result<U, E>(option.unwrap(), "Ok"));
+    }
+
+    return Some(this as unknown as Result<U, E>);
+  }
+
+  /**
+   * Returns the contained Ok value or the default value of a type.
+   *
+   * _Note: Pass a constructor such as `String`, `Number`, `Boolean`, `Array` or `Object`, which return their default value when called without arguments._
+   *
+   * @param {Function} type A function returning the default value.
+   * @returns {T}
+   *
+   * @example
+   * ```ts
+   * Err<number>("Not a number").unwrapOrDefault(Number); // => 0
+   * ```
+   */
+  unwrapOrDefault(type: () => T): T {
+    if (this.isErr()) {
+      return type();
+    }
+
+    return this.val as T;
+  }
+
+  /**
+   * Returns an iterator over the contained Ok value.
+   *
+   * _Note: This method will only yeild if the Result is Ok._
+   * @returns {IterableIterator<T>}
+   */
+  *iter(): IterableIterator<T> {
+    if (this.isOk()) yield this.val as T;
+  }
+
+  /**
+   * Calls the arm matching the variant, returning its output.
+   *
+   * Arms may be a handler, a list of guarded or literal cases ending with a catch-all handler,
+   * or nested arms when the contained value is itself an Option or a Result.
+   *
+   * @param {ResultArms<T, E, U>} arms An arm for each variant.
+   * @returns {U}
+   *
+   * @example
+   * ```ts
+   * const message = res.match({
+   *   Ok: { Some: (user) => `Found ${user.name}`, None: () => "No such user" },
+   *   Err: (e) => `Lookup failed: ${e.message}`,
+   * });
+   * ```
+   */
+  match<U>(arms: ResultArms<T, E, U>): U {
+    if (this.isOk()) {
+      return matchArm(arms.Ok, this.val as T);
+    }
+
+    return matchArm(arms.Err, this.val as E);
+  }
+
+  /**
+   * Returns the contained Ok value, or the output of the arm matching the `_tag` of the contained Error value.
+   *
+   * _Note: Errors created with `defineError` are tagged, a `_` arm catches every other tag and untagged errors._
+   * @param {ErrArms<E, U>} arms A handler for each tag.
+   * @returns {T | U}
+   *
+   * @example
+   * ```ts
+   * const user = load(id).matchErr({
+   *   NotFound: () => guest,
+   *   Timeout: (e) => { throw e; },
+   * });
+   * ```
+   */
+  matchErr<U>(arms: ErrArms<E, U>): T | U {
+    if (this.isOk()) {
+      return this.val as T;
+    }
+
+    return matchTag(arms, this.val as E);
+  }
+
   /**
    * Returns contained value for use in matching.
    *
@@ -277,6 +718,105 @@ export class Result<T, E extends Error> {
     return this.val;
   }
 
+  /**
+   * Returns true if both Results are the same variant with equal values.
+   *
+   * _Note: Err values are always compared structurally with `equal`._
+   * @param {Result<T, E>} other The Result to compare with.
+   * @param {Function} eq Compares the Ok values, defaults to structural equality with `equal`.
+   * @returns {boolean}
+   *
+   * @example
+   * ```ts
+   * Ok({ id: 1 }).equals(Ok({ id: 1 })) // => true
+   * Err(new TypeError("bad")).equals(Err(new TypeError("bad"))) // => true
+   * ```
+   */
+  equals(other: Result<T, E>, eq: Equality<T> = equal): boolean {
+    if (this.isOk() && other.isOk()) {
+      return eq(this.val as T, other.peek() as T);
+    }
+
+    return this.isErr() && other.isErr() && equal(this.val, other.peek());
+  }
+
+  /**
+   * Order this Result against another, with Ok before every Err like Rust unless `errFirst` is set.
+   *
+   * @param {Result<T, E>} other The Result to compare with.
+   * @param {ResultOrder<T, E>} order How to compare the values of each variant, and which variant sorts first.
+   * @returns {number} A negative number if this Result sorts first, a positive number if the other does, or zero.
+   */
+  compare(other: Result<T, E>, order: ResultOrder<T, E> = {}): number {
+    const { ok = compare, err = compare, errFirst = false } = order;
+
+    if (this.isOk() && other.isOk()) {
+      return ok(this.val as T, other.peek() as T);
+    }
+
+    if (this.isErr() && other.isErr()) {
+      return err(this.val as E, other.peek() as E);
+    }
+
+    return this.isOk() === errFirst ? 1 : -1;
+  }
+
+  /**
+   * Returns a string which is the same for every Result this one `equals`, for use as a Map or Set key.
+   *
+   * @returns {string}
+   *
+   * @example
+   * ```ts
+   * Err(new TypeError("bad")).hashKey() // => 'Err(TypeError("bad"))'
+   * ```
+   */
+  hashKey(): string {
+    if (this.isOk()) {
+      return `Ok(${hashKey(this.val)})`;
+    }
+
+    return `Err(${hashKey(this.val)})`;
+  }
+
+  /**
+   * Converts the Result into its tagged wire format, called by `JSON.stringify`.
+   *
+   * _Note: Errors anywhere in either variant, including inside arrays and objects, are written with their name, message, stack and cause._
+   * @returns {ResultJSON<T, E>}
+   *
+   * @example
+   * ```ts
+   * JSON.stringify(Ok(1)) // => '{"$optionals":"Ok","value":1}'
+   * JSON.stringify(Err("Oops")) // => '{"$optionals":"Err","error":{"$optionals":"Error","name":"Error","message":"Oops","stack":"..."}}'
+   * ```
+   */
+  toJSON(): ResultJSON<T, E> {
+    if (this.isOk()) {
+      return { [tagKey]: "Ok", value: serializeErrors(this.val) as T };
+    }
+
+    return { [tagKey]: "Err", error: serializeErrors(this.val) as ErrJSON<E> };
+  }
+
+  /**
+   * Converts the Result into a promise, which resolves with the Ok value or rejects with the Err value.
+   *
+   * @returns {Promise<T>}
+   *
+   * @example
+   * ```ts
+   * app.get("/user", () => findUser(id).toPromise());
+   * ```
+   */
+  toPromise(): Promise<T> {
+    if (this.isOk()) {
+      return Promise.resolve(this.val as T);
+    }
+
+    return Promise.reject(this.val);
+  }
+
   /**
    * Throws contained Errors, consuming the Result.
    */
@@ -287,14 +827,50 @@ export class Result<T, E extends Error> {
   }
 
   /**
-   * Converts from Result<Result<T, E>, E> to Result<T, E>
-   * @returns Option<T>
+   * Converts from Result<Result<T, F>, E> to Result<T, E | F>
+   * @returns Result<T, E | F>
    */
-  flatten(): Result<T, E> {
-    if (this.val instanceof Result) {
-      return this.val
+  flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F>;
+  flatten(): Result<T, E>;
+  flatten(): Result<unknown, unknown> {
+    if (this.isOk() && Result.isResult(this.val)) {
+      return this.val;
     }
-    return this
+    return this;
+  }
+
+  /**
+   * Returns true if a value is a Result, including Results from other copies of this library or other realms.
+   *
+   * _Note: Unlike `instanceof Result`, this recognises Results from the npm and deno.land builds loaded side by side._
+   * @param {unknown} value The value to check.
+   * @returns {boolean}
+   */
+  static isResult(value: unknown): value is Result<unknown, unknown> {
+    const variant = variantOf(value);
+    return variant === "Ok" || variant === "Err";
+  }
+
+  /**
+   * Start tracking Errs in development, reporting any which are garbage collected before a method such as `unwrap`, `match` or `isErr` is called on them.
+   *
+   * _Note: Methods returning the same Err they were called on, such as `map`, pass the duty to handle it along. Static combinators such as `Result.all` handle every input they check._
+   * @param {MustUseOptions} options Options for reporting unhandled Errs, which are logged with `console.error` by default.
+   * @example
+   * Result.enableMustUse();
+   *
+   * Err("Oops"); // Logged with its creation stack once garbage collected.
+   * Err("Oops").unwrapOr(0); // Handled.
+   */
+  static enableMustUse(options?: MustUseOptions): void {
+    enableMustUse(options);
+  }
+
+  /**
+   * Stop tracking Errs, forgetting any which are still unhandled.
+   */
+  static disableMustUse(): void {
+    disableMustUse();
   }
 
   /**
@@ -306,27 +882,400 @@ export class Result<T, E extends Error> {
    */
   static from<T>(fn: () => T): Result<T, Error> {
     try {
-      return new Result<T, Error>(fn());
+      return new Result<T, Error>(fn(), "Ok");
     } catch (e: unknown) {
-      return new Result<T, Error>(e as Error);
+      return new Result<T, Error>(e as Error, "Err");
     }
   }
 
   /**
    * Run an asynchronous closure in a `try`/`catch` and convert it into a Result.
    *
+   * The closure can be bounded with a `timeout` and cancelled with a `signal`, producing a TimeoutError or an AbortError.
+   * It receives an AbortSignal which aborts on cancellation, so that it can stop and clean up.
+   *
    * _Note: Please use `from` to capture the Result of synchronous closures._
-   * @param {Function} fn The synchronous closure to run
+   * @param {Function} fn The asynchronous closure to run
+   * @param {FromAsyncOptions<E>} options Options for cancelling the closure, see `FromAsyncOptions`
    * @returns {Promise<Result<T, Error>>} The Result of the closure
+   *
+   * @example
+   * ```ts
+   * const res = await Result.fromAsync((signal) => fetch(url, { signal }), {
+   *   timeout: 5000,
+   *   signal: request.signal,
+   *   mapErr: (e) => new NetworkError(e),
+   * }); // => Result<Response, NetworkError | TimeoutError | AbortError>
+   * ```
+   */
+  static fromAsync<T>(
+    fn: (signal: AbortSignal) => Promise<T>
+  ): Promise<Result<T, Error>>;
+  static fromAsync<T, E = Error>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: FromAsyncOptions<E>
+  ): Promise<Result<T, E | TimeoutError | AbortError>>;
+  static async fromAsync<T, E>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: FromAsyncOptions<E>
+  ): Promise<Result<T, unknown>> {
+    if (options) return withCancellation(fn, options);
+
+    try {
+      return new Result<T, Error>(await fn(new AbortController().signal), "Ok");
+    } catch (e: unknown) {
+      return new Result<T, Error>(e as Error, "Err");
+    }
+  }
+
+  /**
+   * Convert a function which may throw into one returning a Result, keeping its parameters.
+   *
+   * _Note: Please use `wrapAsync` to convert asynchronous functions._
+   * @param {Function} fn The function to convert
+   * @param {Function} mapErr An optional function converting thrown values into the Err type
+   * @returns {Function} The converted function
+   *
+   * @example
+   * ```ts
+   * const parse = Result.wrap(JSON.parse);
+   * parse("{") // => Err(SyntaxError)
+   * ```
+   */
+  static wrap<A extends unknown[], T, E = Error>(
+    fn: (...args: A) => T,
+    mapErr?: (error: unknown) => E
+  ): (...args: A) => Result<T, E> {
+    return function (this: unknown, ...args: A) {
+      try {
+        return new Result<T, E>(fn.apply(this, args), "Ok");
+      } catch (e: unknown) {
+        return new Result<T, E>(mapErr ? mapErr(e) : (e as E), "Err");
+      }
+    };
+  }
+
+  /**
+   * Convert an asynchronous function which may reject into one resolving to a Result, keeping its parameters.
+   *
+   * _Note: Please use `wrap` to convert synchronous functions._
+   * @param {Function} fn The asynchronous function to convert
+   * @param {Function} mapErr An optional function converting rejections into the Err type
+   * @returns {Function} The converted function
+   *
+   * @example
+   * ```ts
+   * const load = Result.wrapAsync(Deno.readTextFile);
+   * const config = await load("./config.json");
+   * ```
+   */
+  static wrapAsync<A extends unknown[], T, E = Error>(
+    fn: (...args: A) => PromiseLike<T>,
+    mapErr?: (error: unknown) => E
+  ): (...args: A) => Promise<Result<T, E>> {
+    return async function (this: unknown, ...args: A) {
+      try {
+        return new Result<T, E>(await fn.apply(this, args), "Ok");
+      } catch (e: unknown) {
+        return new Result<T, E>(mapErr ? mapErr(e) : (e as E), "Err");
+      }
+    };
+  }
+
+  /**
+   * Convert an existing promise into a promise of a Result.
+   *
+   * @param {PromiseLike<T>} promise The promise to convert
+   * @param {Function} mapErr An optional function converting the rejection into the Err type
+   * @returns {Promise<Result<T, E>>} The Result of the promise
+   *
+   * @example
+   * ```ts
+   * const res = await Result.fromPromise(fetch(url), (e) => new NetworkError(e));
+   * ```
    */
-  static async fromAsync<T>(fn: () => Promise<T>): Promise<Result<T, Error>> {
+  static async fromPromise<T, E = Error>(
+    promise: PromiseLike<T>,
+    mapErr?: (error: unknown) => E
+  ): Promise<Result<T, E>> {
     try {
-      return new Result<T, Error>(await fn());
+      return new Result<T, E>(await promise, "Ok");
     } catch (e: unknown) {
-      return new Result<T, Error>(e as Error);
+      return new Result<T, E>(mapErr ? mapErr(e) : (e as E), "Err");
     }
   }
 
+  /**
+   * Call a function taking a Node-style `(err, value)` callback, and convert its outcome into a Result.
+   *
+   * _Note: Any error passed to the callback other than `null` or `undefined` becomes the Err, as do synchronous throws._
+   * @param {Function} fn A function passing the callback on
+   * @returns {Promise<Result<T, E>>} The Result passed to the callback
+   *
+   * @example
+   * ```ts
+   * const res = await Result.fromCallback<string>((done) => fs.readFile(path, "utf8", done));
+   * ```
+   */
+  static fromCallback<T, E = Error>(
+    fn: (callback: (err: E | null | undefined, value?: T) => void) => void
+  ): Promise<Result<T, E>> {
+    return new Promise((resolve) => {
+      try {
+        fn((err, value) => {
+          if (err !== null && err !== undefined) {
+            resolve(new Result<T, E>(err, "Err"));
+          } else {
+            resolve(new Result<T, E>(value as T, "Ok"));
+          }
+        });
+      } catch (e: unknown) {
+        resolve(new Result<T, E>(e as E, "Err"));
+      }
+    });
+  }
+
+  /**
+   * Call an asynchronous function until it returns an Ok, waiting longer between each failed attempt.
+   *
+   * @param {Function} fn Makes an attempt, given its number starting from 1
+   * @param {RetryOptions<E>} options Options for retrying, see `RetryOptions`
+   * @returns {Promise<Result<T, RetryError<E>>>} The first Ok, or an Err listing the Err of every attempt
+   *
+   * @example
+   * ```ts
+   * const res = await Result.retry(() => fetchRates(), {
+   *   attempts: 5,
+   *   backoff: "exponential",
+   *   jitter: true,
+   *   retryIf: (e) => e.status >= 500,
+   * });
+   * ```
+   */
+  static retry<T, E>(
+    fn: (attempt: number) => Result<T, E> | PromiseLike<Result<T, E>>,
+    options?: RetryOptions<E>
+  ): Promise<Result<T, RetryError<E>>> {
+    return retry(fn, options);
+  }
+
+  /**
+   * Rebuild a Result from its tagged wire format, along with any Options and Results nested inside of it.
+   *
+   * _Note: Errors are rebuilt using the class registered under their name, see `ErrorRegistry`._
+   * @param {string | ResultJSON<T, E>} json A JSON string, or an already parsed object
+   * @param {ErrorRegistry} registry The registry used to rebuild Errors
+   * @returns {Result<T, E>} The rebuilt Result
+   *
+   * @example
+   * ```ts
+   * const res = Result.fromJSON<User>(await response.text());
+   * ```
+   */
+  static fromJSON<T, E = Error>(
+    json: string | ResultJSON<T, E>,
+    registry?: ErrorRegistry
+  ): Result<T, E> {
+    const result =
+      typeof json === "string"
+        ? JSON.parse(json, reviver(registry))
+        : revive(json, registry);
+
+    if (!(result instanceof Result)) {
+      throw new TypeError("Expected a tagged Ok or Err");
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns true if two Results are the same variant with values which are `equal`.
+   *
+   * @param {Result<T, E>} left The first Result.
+   * @param {Result<T, E>} right The second Result.
+   * @returns {boolean}
+   */
+  static equals<T, E>(left: Result<T, E>, right: Result<T, E>): boolean {
+    return left.equals(right);
+  }
+
+  /**
+   * Order two Results, with Ok before every Err like Rust, for use with `Array.prototype.sort`.
+   *
+   * @param {Result<T, E>} left The first Result.
+   * @param {Result<T, E>} right The second Result.
+   * @param {ResultOrder<T, E>} order How to compare the values of each variant, and which variant sorts first.
+   * @returns {number}
+   *
+   * @example
+   * ```ts
+   * [Err("Oops"), Ok(2), Ok(1)].sort(Result.compare) // => [Ok(1), Ok(2), Err("Oops")]
+   * results.sort((a, b) => Result.compare(a, b, { errFirst: true }));
+   * ```
+   */
+  static compare<T, E>(
+    left: Result<T, E>,
+    right: Result<T, E>,
+    order?: ResultOrder<T, E>
+  ): number {
+    return left.compare(right, order);
+  }
+
+  /**
+   * Run a generator block, using `yield*` to unwrap Results like Rust's `?` operator.
+   * The block short-circuits on the first Err, which becomes the returned Result.
+   *
+   * _Note: Please use `genAsync` to run asynchronous generator blocks._
+   * @param {Function} fn The generator block to run
+   * @returns {Result<T, E>} The returned value as Ok, or the first yielded Err
+   *
+   * @example
+   * ```ts
+   * const total = Result.gen(function* () {
+   *   const left = yield* parse(a);
+   *   const right = yield* parse(b);
+   *   return left + right;
+   * });
+   * ```
+   */
+  static gen<Y extends GenYield, T>(
+    fn: () => Generator<Y, T, unknown>
+  ): Result<T, ShortCircuitOf<Y>> {
+    return runGen<T, Result<T, ShortCircuitOf<Y>>>(
+      fn(),
+      (value) => Ok(value),
+      Result.shortCircuit
+    );
+  }
+
+  /**
+   * Run an asynchronous generator block, using `yield*` to unwrap Results like Rust's `?` operator.
+   * The block short-circuits on the first Err, which becomes the returned Result.
+   *
+   * _Note: Please use `gen` to run synchronous generator blocks._
+   * @param {Function} fn The asynchronous generator block to run
+   * @returns {Promise<Result<T, E>>} The returned value as Ok, or the first yielded Err
+   *
+   * @example
+   * ```ts
+   * const user = await Result.genAsync(async function* () {
+   *   const id = yield* parse(input);
+   *   return yield* await fetchUser(id);
+   * });
+   * ```
+   */
+  static genAsync<Y extends GenYield, T>(
+    fn: () => AsyncGenerator<Y, T, unknown>
+  ): Promise<Result<T, ShortCircuitOf<Y>>> {
+    return runGenAsync<T, Result<T, ShortCircuitOf<Y>>>(
+      fn(),
+      (value) => Ok(value),
+      Result.shortCircuit
+    );
+  }
+
+  private static shortCircuit<T, E>(variant: unknown): Result<T, E> {
+    if (Result.isResult(variant) && variant.isErr()) {
+      return variant as Result<T, E>;
+    }
+
+    throw new TypeError("Result.gen blocks may only yield* Results");
+  }
+
+  /**
+   * Combine a tuple of Results into a Result of a tuple, stopping at the first Err.
+   *
+   * @param {[...R]} input A tuple of Results
+   * @returns {Result<OkTuple<R>, ErrOf<R[number]>>}
+   *
+   * @example
+   * ```ts
+   * const res = Result.all([Ok(1), Ok("two")]); // => Ok([1, "two"])
+   * ```
+   */
+  static all<R extends readonly Result<unknown, unknown>[]>(
+    input: readonly [...R]
+  ): Result<OkTuple<R>, ErrOf<R[number]>> {
+    return Result.collect(input) as unknown as Result<
+      OkTuple<R>,
+      ErrOf<R[number]>
+    >;
+  }
+
+  /**
+   * Collect an iterable of Results into a Result of an array, stopping at the first Err.
+   *
+   * @param {Iterable<Result<T, E>>} input An iterable of Results
+   * @returns {Result<Array<T>, E>}
+   *
+   * @example
+   * ```ts
+   * const res = Result.collect(inputs.map(parse)); // => Ok([...]) or the first Err
+   * ```
+   */
+  static collect<T, E>(input: Iterable<Result<T, E>>): Result<Array<T>, E> {
+    const values: Array<T> = [];
+
+    for (const result of input) {
+      if (result.isErr()) return result as unknown as Result<Array<T>, E>;
+      values.push(result.unwrap());
+    }
+
+    return new Result<Array<T>, E>(values, "Ok");
+  }
+
+  /**
+   * Return the first Ok of an iterable of Results, or every Error if none are Ok.
+   *
+   * @param {Iterable<Result<T, E>>} input An iterable of Results
+   * @returns {Result<T, Array<E>>}
+   *
+   * @example
+   * ```ts
+   * const res = Result.any([fromCache(key), fromDisk(key)]);
+   * ```
+   */
+  static any<T, E>(input: Iterable<Result<T, E>>): Result<T, Array<E>> {
+    const errors: Array<E> = [];
+
+    for (const result of input) {
+      if (result.isOk()) return result as unknown as Result<T, Array<E>>;
+      errors.push(result.unwrapErr());
+    }
+
+    return new Result<T, Array<E>>(errors, "Err");
+  }
+
+  /**
+   * Combine a record of Results into a Result of a record, stopping at the first Err.
+   *
+   * @param {R} input A record of Results
+   * @returns {Result<OkRecord<R>, ErrOf<R[keyof R]>>}
+   *
+   * @example
+   * ```ts
+   * const dto = Result.struct({ user: findUser(id), settings: loadSettings(id) });
+   * // => Ok({ user, settings }) or the first Err
+   * ```
+   */
+  static struct<R extends Record<string, Result<unknown, unknown>>>(
+    input: R
+  ): Result<OkRecord<R>, ErrOf<R[keyof R]>> {
+    const values: Record<string, unknown> = {};
+
+    for (const [key, result] of Object.entries(input)) {
+      if (result.isErr()) {
+        return result as unknown as Result<OkRecord<R>, ErrOf<R[keyof R]>>;
+      }
+      values[key] = result.unwrap();
+    }
+
+    return new Result<OkRecord<R>, ErrOf<R[keyof R]>>(
+      values as OkRecord<R>,
+      "Ok"
+    );
+  }
+
   /**
    * Partition an array of Results into Ok values and Errors
    *
@@ -341,28 +1290,115 @@ export class Result<T, E extends Error> {
    *
    * ```
    */
-  static partition<T, E extends Error>(
-    input: Array<Result<T, E>>
+  static partition<T, E>(
+    input: Iterable<Result<T, E>>
   ): { ok: Array<T>; err: Array<E> } {
-    return input.reduce(
-      (acc: { ok: Array<T>; err: Array<E> }, e) => {
-        if (e.isOk()) acc.ok.push(e.unwrap());
-        else acc.err.push(e.unwrapErr());
-
-        return acc;
-      },
-      {
-        ok: [],
-        err: [],
-      }
+    const ok: Array<T> = [];
+    const err: Array<E> = [];
+
+    for (const result of input) {
+      if (result.isOk()) ok.push(result.unwrap());
+      else err.push(result.unwrapErr());
+    }
+
+    return { ok, err };
+  }
+
+  /**
+   * Describe an Error along with every Error in its `cause` chain.
+   *
+   * @param {unknown} err The Error to describe
+   * @param {ReportOptions} options Options for the report
+   * @returns {string} The report
+   *
+   * @example
+   * ```ts
+   * Result.report(new Error("loading config", { cause: new Error("file not found") }))
+   * // Error: loading config
+   * //
+   * // Caused by:
+   * //     Error: file not found
+   * ```
+   */
+  static report(err: unknown, options: ReportOptions = {}): string {
+    const paint = (code: string, text: string) =>
+      options.color ? `\x1b[${code}m${text}\x1b[0m` : text;
+
+    const chain: Array<unknown> = [err];
+    const seen = new Set<unknown>([err]);
+    let current = err;
+
+    while (isError(current) && current.cause !== undefined) {
+      current = current.cause;
+      if (seen.has(current)) break;
+
+      seen.add(current);
+      chain.push(current);
+    }
+
+    const [head, ...causes] = chain.map((item) =>
+      isError(item) ? `${item.name}: ${item.message}` : String(item)
     );
+    const lines = [paint("1;31", head)];
+
+    if (causes.length === 1) {
+      lines.push("", paint("33", "Caused by:"), indent(causes[0], "    "));
+    } else if (causes.length > 1) {
+      lines.push("", paint("33", "Caused by:"));
+      causes.forEach((cause, index) =>
+        lines.push(indent(cause, `${String(index).padStart(5)}: `))
+      );
+    }
+
+    return lines.join("\n");
   }
 }
 
+Object.defineProperties(Result.prototype, {
+  value: {
+    get(this: Result<unknown, unknown>) {
+      return this.isOk() ? this.unwrap() : undefined;
+    },
+  },
+  error: {
+    get(this: Result<unknown, unknown>) {
+      return this.isErr() ? this.unwrapErr() : undefined;
+    },
+  },
+});
+
+/**
+ * The signature of `Ok`, which also narrows Results when used with `instanceof`.
+ */
+export interface OkConstructor {
+  <T, E = Error>(input?: T): Result<T, E>;
+  [Symbol.hasInstance]<T, E>(
+    instance: Result<T, E>
+  ): instance is OkResult<T, E>;
+  [Symbol.hasInstance](
+    instance: unknown
+  ): instance is OkResult<unknown, unknown>;
+}
+
 /**
- * Return a non-error value result.
+ * The signature of `Err`, which also narrows Results when used with `instanceof`.
+ */
+export interface ErrConstructor {
+  <T>(input: string): Result<T, Error>;
+  <T, E = Error>(input: ErrMessage<E>): Result<T, E>;
+  <T, E = Error>(input: E, ...check: NotStringErr<E>): Result<T, E>;
+  [Symbol.hasInstance]<T, E>(
+    instance: Result<T, E>
+  ): instance is ErrResult<E, T>;
+  [Symbol.hasInstance](
+    instance: unknown
+  ): instance is ErrResult<unknown, unknown>;
+}
+
+/**
+ * Return an Ok result.
  *
- * @param {Exclude<T, E>} input a value that does not extend the `Error` type.
+ * @param {T} input the Ok value, which may be any value including an Error.
  * @returns {Result<T, E>}
  * @example
  * ```ts
@@ -379,25 +1415,28 @@ export class Result<T, E extends Error> {
  * const foo = Ok("Foo!");
  *
  * if (foo instanceof Ok) {
- *  // Do something
+ *  console.log(foo.value);
  * }
  * ```
  */
-export function Ok<T, E extends Error>(input?: T) {
-  return new Result<T, E>(input as T);
-}
+export const Ok = function Ok<T, E = Error>(input?: T): Result<T, E> {
+  return new Result<T, E>(input as T, "Ok");
+} as OkConstructor;
 
 Object.defineProperty(Ok, Symbol.hasInstance, {
-  value: <T, E extends Error>(instance: Result<T, E>): boolean => {
-    if (typeof instance !== "object") return false;
-    return instance?.isOk() || false;
+  value: (instance: unknown): boolean => {
+    return variantOf(instance) === "Ok";
   },
 });
 
 /**
- * Return a error result.
+ * Return an Err result.
+ *
+ * For compatibility, a string is converted into an `Error` with that message, so
+ * the Err type may not include `string`, and must accept an `Error` when a string is given.
+ * To hold a string itself as the Err value, use `new Result(input, "Err")`.
  *
- * @param {E | string} input a value that extends the `Error` type.
+ * @param {E | string} input the Err value, which may be any value such as an Error, an enum or an object.
  * @returns {Result<T, E>}
  * @example
  * ```ts
@@ -414,20 +1453,19 @@ Object.defineProperty(Ok, Symbol.hasInstance, {
  * const foo = Err(new Error("Foo!"));
  *
  * if (foo instanceof Err) {
- *  // Do something
+ *  console.log(foo.error);
  * }
  * ```
  */
-export function Err<T, E extends Error>(input: E | string): Result<T, E> {
+export const Err = function Err<T, E = Error>(input: E | string): Result<T, E> {
   if (typeof input === "string") {
-    return new Result<T, Error>(new Error(input)) as Result<T, E>;
+    return new Result<T, Error>(new Error(input), "Err") as Result<T, E>;
   }
-  return new Result<T, E>(input);
-}
+  return new Result<T, E>(input, "Err");
+} as ErrConstructor;
 
 Object.defineProperty(Err, Symbol.hasInstance, {
-  value: <T, E extends Error>(instance: Result<T, E>): boolean => {
-    if (typeof instance !== "object") return false;
-    return instance?.isErr() || false;
+  value: (instance: unknown): boolean => {
+    return variantOf(instance) === "Err";
   },
 });
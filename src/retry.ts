@@ -0,0 +1,154 @@
+import { Result } from "./result.ts";
+
+/**
+ * Waits between attempts, so tests can replace real timers.
+ */
+export interface Clock {
+  sleep(ms: number): Promise<void>;
+}
+
+/**
+ * A Clock backed by `setTimeout`.
+ */
+export const realClock: Clock = {
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+/**
+ * How long to wait after a failed attempt: a named strategy, or a function of the attempt number returning milliseconds.
+ */
+export type Backoff =
+  | "constant"
+  | "linear"
+  | "exponential"
+  | ((attempt: number) => number);
+
+/**
+ * Options for `Result.retry`.
+ */
+export interface RetryOptions<E> {
+  /**
+   * The maximum number of attempts, including the first, defaults to 3.
+   */
+  attempts?: number;
+  /**
+   * The backoff strategy, defaults to "exponential".
+   */
+  backoff?: Backoff;
+  /**
+   * The delay after the first failed attempt in milliseconds, which named strategies grow from, defaults to 100.
+   */
+  delay?: number;
+  /**
+   * The longest delay in milliseconds, defaults to no limit.
+   */
+  maxDelay?: number;
+  /**
+   * Randomly shortens each delay by up to this fraction of it, `true` meaning up to all of it, defaults to none.
+   */
+  jitter?: boolean | number;
+  /**
+   * Returns false for errors which should not be retried, defaults to retrying every error.
+   */
+  retryIf?: (error: E, attempt: number) => boolean;
+  /**
+   * Called before waiting to retry a failed attempt.
+   */
+  onRetry?: (error: E, attempt: number, delay: number) => void;
+  /**
+   * The Clock used to wait between attempts, defaults to `realClock`.
+   */
+  clock?: Clock;
+  /**
+   * The source of randomness for jitter, defaults to `Math.random`.
+   */
+  random?: () => number;
+}
+
+/**
+ * The Err of every failed attempt made by `Result.retry`, in order.
+ */
+export class RetryError<E = Error> extends AggregateError {
+  declare errors: Array<E>;
+
+  /**
+   * A constructor for a RetryError.
+   *
+   * @param {Array<E>} errors The Err of each attempt.
+   */
+  constructor(errors: Array<E>) {
+    super(
+      errors,
+      `Failed after ${errors.length} attempt${errors.length === 1 ? "" : "s"}`
+    );
+    this.name = "RetryError";
+  }
+
+  /**
+   * The Err of the final attempt.
+   */
+  get last(): E {
+    return this.errors[this.errors.length - 1];
+  }
+}
+
+/**
+ * Calculate the delay after a failed attempt.
+ */
+function delayAfter<E>(attempt: number, options: RetryOptions<E>): number {
+  const { backoff = "exponential", delay = 100, jitter = false } = options;
+
+  let ms: number;
+  if (typeof backoff === "function") {
+    ms = backoff(attempt);
+  } else if (backoff === "linear") {
+    ms = delay * attempt;
+  } else if (backoff === "exponential") {
+    ms = delay * 2 ** (attempt - 1);
+  } else {
+    ms = delay;
+  }
+
+  ms = Math.min(ms, options.maxDelay ?? Infinity);
+
+  if (jitter) {
+    const fraction = jitter === true ? 1 : jitter;
+    ms -= ms * fraction * (options.random ?? Math.random)();
+  }
+
+  return Math.max(0, ms);
+}
+
+/**
+ * Call `fn` until it returns an Ok, waiting between failed attempts.
+ *
+ * @param {Function} fn Makes an attempt, given its number starting from 1.
+ * @param {RetryOptions<E>} options Options for retrying.
+ * @returns {Promise<Result<T, RetryError<E>>>}
+ */
+export async function retry<T, E>(
+  fn: (attempt: number) => Result<T, E> | PromiseLike<Result<T, E>>,
+  options: RetryOptions<E> = {}
+): Promise<Result<T, RetryError<E>>> {
+  const { attempts = 3, retryIf, onRetry, clock = realClock } = options;
+  const errors: Array<E> = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await fn(attempt);
+
+    if (result.isOk()) {
+      return result as unknown as Result<T, RetryError<E>>;
+    }
+
+    const error = result.unwrapErr();
+    errors.push(error);
+
+    if (attempt >= attempts || (retryIf && !retryIf(error, attempt))) {
+      return new Result<T, RetryError<E>>(new RetryError(errors), "Err");
+    }
+
+    const ms = delayAfter(attempt, options);
+    onRetry?.(error, attempt, ms);
+    await clock.sleep(ms);
+  }
+}
@@ -0,0 +1,396 @@
+import { AsyncResult } from "./async_result.ts";
+import { AbortError } from "./cancel.ts";
+import {
+  deserializeError,
+  ErrorJSON,
+  ErrorRegistry,
+  isPlainObject,
+  serializeError,
+  tagKey,
+} from "./json.ts";
+import { none, Option } from "./option.ts";
+import { Result } from "./result.ts";
+import { variantOf } from "./brand.ts";
+
+/**
+ * One side of a message channel, such as a `MessagePort` or a `Worker`.
+ */
+export interface Endpoint {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  removeEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  start?(): void;
+}
+
+/**
+ * An object of functions to expose over an Endpoint.
+ */
+export type Procedures = Record<string, (...args: never[]) => unknown>;
+
+/**
+ * The AsyncResult a remote call resolves to.
+ *
+ * _Note: Procedures which don't return a Result are wrapped in an Ok. Calls can also fail with an Error, for example when the procedure throws, a value cannot be cloned or the channel is closed._
+ */
+export type RemoteResult<R> = Awaited<R> extends Result<infer T, infer E>
+  ? AsyncResult<T, E | Error>
+  : AsyncResult<Awaited<R>, Error>;
+
+/**
+ * A typed proxy for procedures exposed on the other side of an Endpoint.
+ */
+export type Remote<P> = {
+  [K in keyof P]: P[K] extends (...args: infer A) => infer R
+    ? (...args: A) => RemoteResult<R>
+    : never;
+};
+
+/**
+ * Options for both sides of an RPC channel.
+ */
+export interface RpcOptions {
+  /**
+   * The registry used to rebuild Errors, see `ErrorRegistry`.
+   */
+  registry?: ErrorRegistry;
+  /**
+   * Closes the channel when aborted: `expose` stops listening, and `connect` settles pending and later calls with an AbortError.
+   */
+  signal?: AbortSignal;
+}
+
+type Call = { [tagKey]: "call"; id: number; method: string; args: unknown[] };
+type Reply = { [tagKey]: "reply"; id: number; result: unknown };
+
+/**
+ * Replace every Option, Result and Error within a value with a tagged object literal, which `postMessage` can clone without losing its class.
+ *
+ * Everything else is left for `postMessage`, so Dates, Maps, Sets, typed arrays and cycles arrive intact.
+ */
+function encode(value: unknown, seen: Map<object, unknown>): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  if (seen.has(value)) return seen.get(value);
+
+  if (Option.isOption(value) || Result.isResult(value)) {
+    const variant = variantOf(value)!;
+    const node: Record<string, unknown> = { [tagKey]: variant };
+    seen.set(value, node);
+
+    if (variant === "Some" || variant === "Ok") {
+      node.value = encode(value.peek(), seen);
+    } else if (variant === "Err") {
+      node.error = encode(value.peek(), seen);
+    }
+
+    return node;
+  }
+
+  if (value instanceof Error) {
+    const node = serializeError(value);
+    seen.set(value, node);
+    return node;
+  }
+
+  if (Array.isArray(value)) {
+    const array: unknown[] = [];
+    seen.set(value, array);
+    for (const item of value) array.push(encode(item, seen));
+    return array;
+  }
+
+  if (value instanceof Map) {
+    const map = new Map();
+    seen.set(value, map);
+    for (const [key, item] of value)
+      map.set(encode(key, seen), encode(item, seen));
+    return map;
+  }
+
+  if (value instanceof Set) {
+    const set = new Set();
+    seen.set(value, set);
+    for (const item of value) set.add(encode(item, seen));
+    return set;
+  }
+
+  if (isPlainObject(value)) {
+    const object: Record<string, unknown> = {};
+    seen.set(value, object);
+    for (const [key, item] of Object.entries(value)) {
+      object[key] = encode(item, seen);
+    }
+    return object;
+  }
+
+  return value;
+}
+
+/**
+ * Rebuild the Options, Results and Errors tagged by `encode`, replacing them within the cloned value in place.
+ */
+function decode(
+  value: unknown,
+  registry: ErrorRegistry | undefined,
+  seen: Map<object, unknown>
+): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  if (seen.has(value)) return seen.get(value);
+  seen.set(value, value);
+
+  let decoded: unknown = value;
+
+  if (isPlainObject(value) && typeof value[tagKey] === "string") {
+    const inner = (key: string) => decode(value[key], registry, seen);
+
+    switch (value[tagKey]) {
+      case "Ok":
+        decoded = new Result(inner("value"), "Ok");
+        break;
+      case "Err":
+        decoded = new Result(inner("error"), "Err");
+        break;
+      case "Some":
+        decoded = new Option(inner("value"));
+        break;
+      case "None":
+        decoded = new Option(none);
+        break;
+      case "Error":
+        decoded = deserializeError(value as ErrorJSON, registry);
+        break;
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      value[index] = decode(item, registry, seen);
+    });
+  } else if (value instanceof Map) {
+    const entries = [...value];
+    value.clear();
+    for (const [key, item] of entries) {
+      value.set(decode(key, registry, seen), decode(item, registry, seen));
+    }
+  } else if (value instanceof Set) {
+    const items = [...value];
+    value.clear();
+    for (const item of items) value.add(decode(item, registry, seen));
+  } else if (isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      value[key] = decode(item, registry, seen);
+    }
+  }
+
+  seen.set(value, decoded);
+  return decoded;
+}
+
+/**
+ * Returns the message sent by the other side, ignoring anything which isn't part of the RPC protocol.
+ */
+function receive(event: MessageEvent): Call | Reply | undefined {
+  const data: unknown = event.data;
+  if (!isPlainObject(data)) return undefined;
+
+  return data[tagKey] === "call" || data[tagKey] === "reply"
+    ? (data as Call | Reply)
+    : undefined;
+}
+
+/**
+ * Wrap the value returned by a procedure in an Ok, unless it is already a Result.
+ */
+function toResult(value: unknown): Result<unknown, unknown> {
+  if (Result.isResult(value)) return value;
+
+  return new Result(value, "Ok");
+}
+
+/**
+ * Expose procedures to a `connect`ed proxy on the other side of an Endpoint.
+ *
+ * Messages are sent with the structured clone of `postMessage`, so Dates, Maps,
+ * Sets and typed arrays arrive intact, while Options, Results and Errors (including
+ * their `cause` and own fields) are tagged and rebuilt as real instances. A result
+ * which cannot be cloned is replied to with an Err of the cloning error instead.
+ *
+ * @param {Endpoint} endpoint The Endpoint to listen on.
+ * @param {Procedures} procedures The functions to expose, which may return a Result, an AsyncResult or any other value.
+ * @param {RpcOptions} options Options for the channel.
+ * @returns {Function} A function which stops listening.
+ *
+ * @example
+ * ```ts
+ * // worker.ts
+ * const procedures = {
+ *   parse: (input: string) => Result.from(() => JSON.parse(input)),
+ * };
+ * export type Procedures = typeof procedures;
+ *
+ * expose(self, procedures);
+ * ```
+ */
+export function expose(
+  endpoint: Endpoint,
+  procedures: Procedures,
+  options: RpcOptions = {}
+): () => void {
+  const { registry, signal } = options;
+  if (signal?.aborted) return () => {};
+
+  const send = (id: number, result: Result<unknown, unknown>) => {
+    const message: Reply = {
+      [tagKey]: "reply",
+      id,
+      result: encode(result, new Map()),
+    };
+    endpoint.postMessage(message);
+  };
+
+  const reply = (id: number, result: Result<unknown, unknown>) => {
+    try {
+      send(id, result);
+    } catch (error: unknown) {
+      try {
+        send(id, new Result(error, "Err"));
+      } catch {
+        // The endpoint cannot send anything, such as once it is closed
+      }
+    }
+  };
+
+  const listener = async (event: MessageEvent) => {
+    const message = receive(event);
+    if (message?.[tagKey] !== "call") return;
+
+    const procedure = Object.hasOwn(procedures, message.method)
+      ? procedures[message.method]
+      : undefined;
+
+    let args: unknown[];
+    try {
+      args = decode(message.args, registry, new Map()) as unknown[];
+    } catch (error: unknown) {
+      return reply(message.id, new Result(error, "Err"));
+    }
+
+    const result = procedure
+      ? await Result.fromAsync(
+          async () =>
+            await (procedure as (...args: unknown[]) => unknown)(...args)
+        ).then((result) => result.andThen(toResult))
+      : new Result(
+          new TypeError(`Unknown procedure "${message.method}"`),
+          "Err"
+        );
+
+    reply(message.id, result);
+  };
+
+  const stop = () => {
+    endpoint.removeEventListener("message", listener);
+    signal?.removeEventListener("abort", stop);
+  };
+
+  endpoint.addEventListener("message", listener);
+  signal?.addEventListener("abort", stop, { once: true });
+  endpoint.start?.();
+
+  return stop;
+}
+
+/**
+ * Create a typed proxy for procedures exposed on the other side of an Endpoint.
+ *
+ * _Note: Pass a `signal` to close the channel, settling pending calls with an AbortError._
+ * @param {Endpoint} endpoint The Endpoint to send calls over.
+ * @param {RpcOptions} options Options for the channel.
+ * @returns {Remote<P>}
+ *
+ * @example
+ * ```ts
+ * const worker = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
+ * const controller = new AbortController();
+ * const remote = connect<Procedures>(worker, { signal: controller.signal });
+ *
+ * const data = await remote.parse('{"a":1}').unwrapOr({});
+ * controller.abort();
+ * ```
+ */
+export function connect<P>(
+  endpoint: Endpoint,
+  options: RpcOptions = {}
+): Remote<P> {
+  const { registry, signal } = options;
+  const pending = new Map<number, (result: Result<unknown, unknown>) => void>();
+  let next = 0;
+
+  const listener = (event: MessageEvent) => {
+    const message = receive(event);
+    if (message?.[tagKey] !== "reply") return;
+
+    const resolve = pending.get(message.id);
+    pending.delete(message.id);
+
+    try {
+      resolve?.(
+        decode(message.result, registry, new Map()) as Result<unknown, unknown>
+      );
+    } catch (error: unknown) {
+      resolve?.(new Result(error, "Err"));
+    }
+  };
+
+  const close = () => {
+    endpoint.removeEventListener("message", listener);
+
+    for (const resolve of pending.values()) {
+      resolve(new Result(new AbortError(signal?.reason), "Err"));
+    }
+    pending.clear();
+  };
+
+  // An aborted signal never fires again, so calls are settled by the check in the proxy instead
+  if (!signal?.aborted) {
+    endpoint.addEventListener("message", listener);
+    signal?.addEventListener("abort", close, { once: true });
+    endpoint.start?.();
+  }
+
+  return new Proxy({} as Remote<P>, {
+    get(_target, method) {
+      // Allow the proxy to be returned from async functions without being mistaken for a thenable
+      if (typeof method !== "string" || method === "then") return undefined;
+
+      return (...args: unknown[]) => {
+        const id = next++;
+
+        return new AsyncResult(
+          new Promise<Result<unknown, unknown>>((resolve) => {
+            if (signal?.aborted) {
+              return resolve(new Result(new AbortError(signal.reason), "Err"));
+            }
+
+            pending.set(id, resolve);
+            try {
+              const call: Call = {
+                [tagKey]: "call",
+                id,
+                method,
+                args: encode(args, new Map()) as unknown[],
+              };
+              endpoint.postMessage(call);
+            } catch (error: unknown) {
+              pending.delete(id);
+              resolve(new Result(error, "Err"));
+            }
+          })
+        );
+      };
+    },
+  });
+}
@@ -0,0 +1,126 @@
+import { Handler } from "./match.ts";
+
+/**
+ * The fields of a payload which configure the Error itself rather than being copied onto it.
+ */
+export interface ErrorFields {
+  message?: string;
+  cause?: unknown;
+}
+
+/**
+ * An Error with a literal `_tag` and the fields of its payload.
+ */
+export type TaggedError<
+  Tag extends string,
+  P = Record<never, never>
+> = Error & {
+  readonly _tag: Tag;
+} & Readonly<Omit<P, keyof ErrorFields>>;
+
+/**
+ * A class of TaggedErrors, as created by `defineError`.
+ */
+export interface TaggedErrorClass<Tag extends string, A extends unknown[], P> {
+  new (...args: A): TaggedError<Tag, P>;
+  readonly name: Tag;
+  readonly prototype: TaggedError<Tag, P>;
+}
+
+/**
+ * The union of tags in a union of errors.
+ */
+export type TagOf<E> = E extends { readonly _tag: infer Tag extends string }
+  ? Tag
+  : never;
+
+type TagArms<E, U> = {
+  [Tag in TagOf<E>]: Handler<Extract<E, { readonly _tag: Tag }>, U>;
+};
+
+type CatchAll<E, U> = Partial<TagArms<E, U>> & { _: Handler<E, U> };
+
+/**
+ * The arms matching a union of TaggedErrors: a handler for each tag, or some tags and a `_` catch-all.
+ *
+ * _Note: The catch-all is required when the union contains errors without a `_tag`._
+ */
+export type ErrArms<E, U> = [Exclude<E, { readonly _tag: string }>] extends [
+  never
+]
+  ? TagArms<E, U> | CatchAll<E, U>
+  : CatchAll<E, U>;
+
+/**
+ * Define an Error class with a literal `_tag`, whose constructor arguments are converted into a payload.
+ *
+ * The fields of the payload are copied onto each Error, except for `message` and
+ * `cause` which are passed to the Error itself. The tag is also used as the `name`
+ * of the class and its Errors, so they can be registered with an `ErrorRegistry`.
+ *
+ * @param {Tag} tag The tag, and name, of the Errors.
+ * @param {Function} payload A function converting constructor arguments into a payload.
+ * @returns {TaggedErrorClass<Tag, A, P>}
+ *
+ * @example
+ * ```ts
+ * const NotFound = defineError("NotFound", (id: string) => ({ id, message: `${id} not found` }));
+ * const Timeout = defineError("Timeout", (ms: number, cause?: unknown) => ({ ms, cause }));
+ *
+ * function load(id: string): Result<User, InstanceType<typeof NotFound> | InstanceType<typeof Timeout>> { ... }
+ *
+ * load(id).matchErr({
+ *   NotFound: (e) => `Missing ${e.id}`,
+ *   Timeout: (e) => `Gave up after ${e.ms}ms`,
+ * });
+ * ```
+ */
+export function defineError<
+  Tag extends string,
+  A extends unknown[] = [],
+  P extends object = Record<never, never>
+>(tag: Tag, payload?: (...args: A) => P): TaggedErrorClass<Tag, A, P> {
+  const TaggedError = class extends Error {
+    readonly _tag = tag;
+
+    constructor(...args: A) {
+      const { message, cause, ...fields } = (payload?.(...args) ??
+        {}) as ErrorFields;
+
+      super(message ?? tag, cause === undefined ? undefined : { cause });
+      Object.assign(this, fields);
+    }
+  };
+
+  Object.defineProperty(TaggedError, "name", { value: tag });
+  Object.defineProperty(TaggedError.prototype, "name", {
+    value: tag,
+    writable: true,
+    configurable: true,
+  });
+
+  return TaggedError as unknown as TaggedErrorClass<Tag, A, P>;
+}
+
+/**
+ * Match an error against the arm for its `_tag`, falling back to the `_` catch-all.
+ *
+ * @param {ErrArms<E, U>} arms A handler for each tag.
+ * @param {E} error The error to match.
+ * @returns {U}
+ */
+export function matchTag<E, U>(arms: ErrArms<E, U>, error: E): U {
+  const handlers = arms as Record<string, Handler<E, U> | undefined>;
+  const tag = (error as { _tag?: unknown } | null | undefined)?._tag;
+
+  const handler =
+    (typeof tag === "string" && Object.hasOwn(handlers, tag)
+      ? handlers[tag]
+      : undefined) ?? handlers._;
+
+  if (!handler) {
+    throw new TypeError(`No arm matches the error tag "${String(tag)}"`);
+  }
+
+  return handler(error);
+}
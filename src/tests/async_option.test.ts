@@ -0,0 +1,93 @@
+import { AsyncOption } from "../async_option.ts";
+import { Option, Some, None } from "../option.ts";
+import {
+  assertEquals,
+  assert,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+Deno.test("AsyncOption", async (t) => {
+  await t.step("Symbol.toStringTag - Should return correct value.", () => {
+    assertEquals(new AsyncOption(Some(1))[Symbol.toStringTag], "AsyncOption");
+  });
+
+  await t.step("then - Should resolve to the wrapped Option.", async () => {
+    const res = await new AsyncOption(Promise.resolve(Some("Some")));
+    assert(res instanceof Option);
+    assertEquals(res.unwrap(), "Some");
+  });
+
+  await t.step("map - Should get mapped value.", async () => {
+    const res = await new AsyncOption(Some(2)).map(
+      async (n) => (await Promise.resolve(n)) * 2
+    );
+    assertEquals(res.unwrap(), 4);
+  });
+
+  await t.step("map None - Should leave value untouched.", async () => {
+    const res = await new AsyncOption<number>(None()).map((n) => n * 2);
+    assert(res.isNone());
+  });
+
+  await t.step("andThen - Should chain sync and async Options.", async () => {
+    const res = await new AsyncOption(Some(1))
+      .andThen((n) => Some(n + 1))
+      .andThen(async (n) => await Promise.resolve(Some(n + 1)))
+      .andThen((n) => new AsyncOption(Some(n + 1)));
+    assertEquals(res.unwrap(), 4);
+  });
+
+  await t.step("andThen None - Should short-circuit on None.", async () => {
+    let called = false;
+    const res = await new AsyncOption(Some(1))
+      .andThen(() => None<number>())
+      .andThen((n) => {
+        called = true;
+        return Some(n);
+      });
+    assert(res.isNone());
+    assert(!called);
+  });
+
+  await t.step("orElse - Should get computed Option.", async () => {
+    const res = await new AsyncOption<string>(None()).orElse(
+      async () => await Promise.resolve(Some("Some"))
+    );
+    assertEquals(res.unwrap(), "Some");
+  });
+
+  await t.step("orElse Some - Should leave Some untouched.", async () => {
+    const res = await new AsyncOption(Some("Some")).orElse(() => Some("Test"));
+    assertEquals(res.unwrap(), "Some");
+  });
+
+  await t.step("unwrapOr - Should resolve to contained value.", async () => {
+    assertEquals(await new AsyncOption(Some("Some")).unwrapOr("Test"), "Some");
+    assertEquals(
+      await new AsyncOption<string>(None()).unwrapOr("Test"),
+      "Test"
+    );
+  });
+
+  await t.step("match - Should call the matching handler.", async () => {
+    const arms = {
+      Some: (n: number) => `Some ${n}`,
+      None: async () => await Promise.resolve("None"),
+    };
+    assertEquals(await new AsyncOption(Some(1)).match(arms), "Some 1");
+    assertEquals(await new AsyncOption<number>(None()).match(arms), "None");
+  });
+});
+
+Deno.test("AsyncOption - Supporting Function Tests", async (t) => {
+  await t.step("from - Should return Some result.", async () => {
+    const res = await AsyncOption.from(async () => await Promise.resolve(1));
+    assertEquals(res.unwrap(), 1);
+  });
+
+  await t.step("from Null - Should return None result.", async () => {
+    const res = await AsyncOption.from(
+      async () => await Promise.resolve(null)
+    ).map(() => "Unreachable");
+    assert(res.isNone());
+  });
+});
@@ -0,0 +1,124 @@
+import { AsyncResult } from "../async_result.ts";
+import { Result, Ok, Err } from "../result.ts";
+import {
+  assertEquals,
+  assert,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+Deno.test("AsyncResult", async (t) => {
+  await t.step("Symbol.toStringTag - Should return correct value.", () => {
+    assertEquals(new AsyncResult(Ok("Ok"))[Symbol.toStringTag], "AsyncResult");
+  });
+
+  await t.step("then - Should resolve to the wrapped Result.", async () => {
+    const res = await new AsyncResult(Promise.resolve(Ok("Ok")));
+    assert(res instanceof Result);
+    assertEquals(res.unwrap(), "Ok");
+  });
+
+  await t.step("map - Should get mapped value.", async () => {
+    const res = await new AsyncResult(Ok(2)).map((n) => n * 2);
+    assertEquals(res.unwrap(), 4);
+  });
+
+  await t.step("map Async - Should await an async mapping.", async () => {
+    const res = await new AsyncResult(Ok(2)).map(
+      async (n) => (await Promise.resolve(n)) * 2
+    );
+    assertEquals(res.unwrap(), 4);
+  });
+
+  await t.step("map Error - Should leave Error untouched.", async () => {
+    let called = false;
+    const res = await new AsyncResult<number, Error>(Err("Test")).map(() => {
+      called = true;
+      return 1;
+    });
+    assert(res.isErr());
+    assert(!called);
+  });
+
+  await t.step("mapErr - Should get mapped Error.", async () => {
+    const res = await new AsyncResult<number, Error>(Err("Test")).mapErr(
+      async (e) => await Promise.resolve(new TypeError(e.message))
+    );
+    assertEquals(res.unwrapErr().name, "TypeError");
+  });
+
+  await t.step("mapErr Ok - Should return Ok.", async () => {
+    const res = await new AsyncResult(Ok("Ok")).mapErr(
+      () => new TypeError("Test")
+    );
+    assertEquals(res.unwrap(), "Ok");
+  });
+
+  await t.step("andThen - Should chain sync and async Results.", async () => {
+    const res = await new AsyncResult(Ok(1))
+      .andThen((n) => Ok(n + 1))
+      .andThen(async (n) => await Promise.resolve(Ok(n + 1)))
+      .andThen((n) => new AsyncResult(Ok(n + 1)));
+    assertEquals(res.unwrap(), 4);
+  });
+
+  await t.step("andThen Error - Should short-circuit on Err.", async () => {
+    let called = false;
+    const res = await new AsyncResult(Ok(1))
+      .andThen(() => Err<number, TypeError>(new TypeError("Test")))
+      .andThen((n) => {
+        called = true;
+        return Ok(n);
+      });
+    assertEquals(res.unwrapErr().name, "TypeError");
+    assert(!called);
+  });
+
+  await t.step("orElse - Should recover from Err.", async () => {
+    const res = await new AsyncResult<string, Error>(Err("Test")).orElse(
+      async (e) => await Promise.resolve(Ok(e.message))
+    );
+    assertEquals(res.unwrap(), "Test");
+  });
+
+  await t.step("orElse Ok - Should leave Ok untouched.", async () => {
+    const res = await new AsyncResult(Ok("Ok")).orElse(() => Ok("Test"));
+    assertEquals(res.unwrap(), "Ok");
+  });
+
+  await t.step("unwrapOr - Should resolve to contained value.", async () => {
+    assertEquals(await new AsyncResult(Ok("Ok")).unwrapOr("Test"), "Ok");
+  });
+
+  await t.step(
+    "unwrapOr Error - Should resolve to default value.",
+    async () => {
+      const res = new AsyncResult<string, Error>(Err("Test"));
+      assertEquals(await res.unwrapOr("Ok"), "Ok");
+    }
+  );
+
+  await t.step("match - Should call the matching handler.", async () => {
+    const arms = {
+      Ok: (n: number) => `Ok ${n}`,
+      Err: async (e: Error) => await Promise.resolve(`Err ${e.message}`),
+    };
+    assertEquals(await new AsyncResult(Ok(1)).match(arms), "Ok 1");
+    assertEquals(
+      await new AsyncResult<number, Error>(Err("Test")).match(arms),
+      "Err Test"
+    );
+  });
+});
+
+Deno.test("AsyncResult - Supporting Function Tests", async (t) => {
+  await t.step("from - Should return Ok result.", async () => {
+    const res = await AsyncResult.from(async () => await Promise.resolve(1));
+    assertEquals(res.unwrap(), 1);
+  });
+
+  await t.step("from Error - Should return Err result.", async () => {
+    const res = await AsyncResult.from(
+      async () => await Promise.reject(new Error("Test"))
+    ).map(() => "Unreachable");
+    assertEquals(res.unwrapErr().message, "Test");
+  });
+});
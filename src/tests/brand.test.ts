@@ -0,0 +1,186 @@
+import vm from "node:vm";
+import { stripTypeScriptTypes } from "node:module";
+import * as local from "../../mod.ts";
+import { Err, None, Ok, Option, Result, Some } from "../../mod.ts";
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+/**
+ * Load a second, independent instance of the library from a temporary copy of its source, like the npm and deno.land builds side by side.
+ */
+async function loadCopy(dir: string): Promise<typeof local> {
+  const root = new URL("../../", import.meta.url);
+  await Deno.mkdir(`${dir}/src`);
+  await Deno.copyFile(new URL("mod.ts", root), `${dir}/mod.ts`);
+
+  for await (const entry of Deno.readDir(new URL("src", root))) {
+    if (entry.isFile) {
+      await Deno.copyFile(
+        new URL(`src/${entry.name}`, root),
+        `${dir}/src/${entry.name}`
+      );
+    }
+  }
+
+  const url = new URL("file:///");
+  url.pathname = `${dir.replaceAll("\\", "/")}/mod.ts`;
+  return await import(url.href);
+}
+
+/**
+ * Load the library into a new `vm` context, so that its classes and values belong to another realm.
+ */
+async function loadRealm(): Promise<typeof local> {
+  const context = vm.createContext({});
+  const modules = new Map<string, vm.SourceTextModule>();
+
+  const load = async (url: URL) => {
+    let module = modules.get(url.href);
+    if (!module) {
+      const source = stripTypeScriptTypes(await Deno.readTextFile(url), {
+        mode: "transform",
+      });
+      module = new vm.SourceTextModule(source, {
+        context,
+        identifier: url.href,
+      });
+      modules.set(url.href, module);
+    }
+
+    return module;
+  };
+
+  const root = await load(new URL("../../mod.ts", import.meta.url));
+  await root.link((specifier, referencing) =>
+    load(new URL(specifier, referencing.identifier))
+  );
+  await root.evaluate();
+
+  return root.namespace as typeof local;
+}
+
+Deno.test("Brand", async (t) => {
+  const dir = await Deno.makeTempDir();
+
+  try {
+    const copy = await loadCopy(dir);
+
+    await t.step("copy - Should be a separate instance of the library.", () => {
+      assert(copy.Option !== Option);
+      assert(!(copy.Some(1) instanceof Option));
+      assert(!(copy.Ok(1) instanceof Result));
+    });
+
+    await t.step("none - Should be shared by every copy.", () => {
+      assertEquals(copy.none, local.none);
+      assert(copy.None().peek() === None().peek());
+    });
+
+    await t.step(
+      "Option.isOption - Should recognise Options from a copy.",
+      () => {
+        assert(Option.isOption(copy.Some(1)));
+        assert(Option.isOption(copy.None()));
+        assert(copy.Option.isOption(Some(1)));
+        assert(!Option.isOption(copy.Ok(1)));
+        assert(!Option.isOption({ val: 1 }));
+        assert(!Option.isOption(null));
+      }
+    );
+
+    await t.step(
+      "Result.isResult - Should recognise Results from a copy.",
+      () => {
+        assert(Result.isResult(copy.Ok(1)));
+        assert(Result.isResult(copy.Err("Oops")));
+        assert(copy.Result.isResult(Err("Oops")));
+        assert(!Result.isResult(copy.Some(1)));
+        assert(!Result.isResult("Ok"));
+      }
+    );
+
+    await t.step("instanceof - Should check variants from a copy.", () => {
+      assert(copy.Some(1) instanceof Some);
+      assert(copy.None() instanceof None);
+      assert(copy.Ok(1) instanceof Ok);
+      assert(copy.Err("Oops") instanceof Err);
+
+      assert(Some(1) instanceof copy.Some);
+      assert(!(copy.Some(1) instanceof None));
+      assert(!(copy.Ok(1) instanceof Err));
+    });
+
+    await t.step(
+      "instanceof - Should not call methods of other values.",
+      () => {
+        const impostor = {
+          isSome: () => {
+            throw new Error("Called isSome");
+          },
+          isOk: () => {
+            throw new Error("Called isOk");
+          },
+        };
+
+        assert(!(impostor instanceof Some));
+        assert(!(impostor instanceof Ok));
+      }
+    );
+
+    await t.step(
+      "flatten - Should flatten Options and Results from a copy.",
+      () => {
+        assertEquals(Some(copy.Some(1)).flatten().unwrap(), 1);
+        assertEquals(Ok(copy.Ok(1)).flatten().unwrap(), 1);
+      }
+    );
+
+    await t.step("equal - Should compare values from a copy.", () => {
+      assert(local.equal(Some({ id: 1 }), copy.Some({ id: 1 })));
+      assert(Ok([1]).equals(copy.Ok([1])));
+      assert(!local.equal(None(), copy.Some(1)));
+    });
+
+    await t.step("gen - Should short-circuit on Results from a copy.", () => {
+      const res = Result.gen(function* () {
+        const value: number = yield* copy.Ok<number, Error>(1);
+        yield* copy.Err<number, Error>("Oops");
+        return value;
+      });
+
+      assert(res.isErr());
+      assertEquals(res.unwrapErr().message, "Oops");
+    });
+
+    await t.step(
+      "isOption and isResult - Should recognise values from another realm.",
+      async () => {
+        const realm = await loadRealm();
+        const some = realm.Some(1);
+
+        assert(Object.getPrototypeOf(some) !== Option.prototype);
+        assert(!(Object.getPrototypeOf(some) instanceof Object));
+        assert(Option.isOption(some));
+        assert(Option.isOption(realm.None()));
+        assert(Result.isResult(realm.Ok(1)));
+        assert(Result.isResult(realm.Err("Oops")));
+        assert(!Result.isResult(some));
+        assert(realm.Err("Oops") instanceof Err);
+        assertEquals(Some(realm.Some(1)).flatten().unwrap(), 1);
+      }
+    );
+
+    await t.step("variantKey - Should be read in other realms.", () => {
+      const variantOf = vm.runInNewContext(
+        '(value) => value[Symbol.for("optionals.variant")]'
+      );
+
+      assertEquals(variantOf(Some(1)), "Some");
+      assertEquals(variantOf(copy.Err("Oops")), "Err");
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,129 @@
+import { Result } from "../result.ts";
+import { AsyncResult } from "../async_result.ts";
+import { AbortError, TimeoutError } from "../cancel.ts";
+import { defineError } from "../tagged_error.ts";
+import {
+  assertEquals,
+  assert,
+  assertRejects,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+const NetworkError = defineError("NetworkError", (cause: unknown) => ({
+  cause,
+}));
+
+function wait(ms: number, signal: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(`Waited ${ms}ms`), ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+Deno.test("Cancellation", async (t) => {
+  await t.step("fromAsync - Should pass a signal to the closure.", async () => {
+    const res = await Result.fromAsync((signal) =>
+      Promise.resolve(signal instanceof AbortSignal)
+    );
+    assert(res.unwrap());
+  });
+
+  await t.step("timeout - Should return work finishing in time.", async () => {
+    const res = await Result.fromAsync((signal) => wait(1, signal), {
+      timeout: 1000,
+    });
+    assertEquals(res.unwrap(), "Waited 1ms");
+  });
+
+  await t.step("timeout - Should return a TimeoutError.", async () => {
+    let reason: unknown;
+    const res = await Result.fromAsync(
+      (signal) => {
+        signal.addEventListener("abort", () => (reason = signal.reason));
+        return wait(1000, signal);
+      },
+      { timeout: 5 }
+    );
+    const error = res.unwrapErr();
+
+    assert(error instanceof TimeoutError);
+    assertEquals(error.ms, 5);
+    assertEquals(error.message, "Timed out after 5ms");
+    assert(reason === error);
+  });
+
+  await t.step("signal - Should return an AbortError.", async () => {
+    const controller = new AbortController();
+    const pending = Result.fromAsync((signal) => wait(1000, signal), {
+      signal: controller.signal,
+    });
+    controller.abort("User left");
+
+    const error = (await pending).unwrapErr();
+    assert(error instanceof AbortError);
+    assertEquals(error.reason, "User left");
+    assertEquals(error.cause, "User left");
+  });
+
+  await t.step(
+    "signal - Should not run work which is already aborted.",
+    async () => {
+      let ran = false;
+      const res = await Result.fromAsync(
+        () => {
+          ran = true;
+          return Promise.resolve(1);
+        },
+        { signal: AbortSignal.abort() }
+      );
+
+      assert(!ran);
+      assert(res.unwrapErr() instanceof AbortError);
+    }
+  );
+
+  await t.step("mapErr - Should map errors from the work only.", async () => {
+    const res: Result<
+      string,
+      InstanceType<typeof NetworkError> | TimeoutError | AbortError
+    > = await Result.fromAsync(() => Promise.reject(new Error("Test")), {
+      timeout: 1000,
+      mapErr: (e) => new NetworkError(e),
+    });
+
+    const message = res.matchErr({
+      NetworkError: (e) => `Network: ${(e.cause as Error).message}`,
+      TimeoutError: (e) => `Timeout: ${e.ms}`,
+      AbortError: () => "Aborted",
+    });
+    assertEquals(message, "Network: Test");
+  });
+
+  await t.step(
+    "AsyncResult.from - Should accept cancellation options.",
+    async () => {
+      const res = await AsyncResult.from((signal) => wait(1000, signal), {
+        timeout: 1,
+      });
+      assert(res.unwrapErr() instanceof TimeoutError);
+    }
+  );
+
+  await t.step(
+    "mapErr - Should reject when mapping the error throws.",
+    async () => {
+      const error = await assertRejects(
+        () =>
+          Result.fromAsync(() => Promise.reject(new Error("Test")), {
+            mapErr: () => {
+              throw new RangeError("Bad mapper");
+            },
+          }),
+        RangeError
+      );
+      assertEquals(error.message, "Bad mapper");
+    }
+  );
+});
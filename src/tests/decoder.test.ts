@@ -0,0 +1,157 @@
+import { Option } from "../option.ts";
+import { Decoder, DecodeError } from "../decoder.ts";
+import { ValidationError } from "../validation.ts";
+import {
+  assertEquals,
+  assert,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+const order = Decoder.object({
+  id: Decoder.string,
+  status: Decoder.literal("open", "closed"),
+  items: Decoder.array(
+    Decoder.object({
+      price: Decoder.number.refine((n) => n >= 0, "a positive number"),
+    })
+  ),
+  note: Decoder.optional(Decoder.string),
+});
+
+Deno.test("Decoder", async (t) => {
+  await t.step("string - Should decode strings.", () => {
+    assertEquals(Decoder.string.decode("Test").unwrap(), "Test");
+    assertEquals(
+      Decoder.string.decode(1).unwrapErr().message,
+      "$: expected string"
+    );
+  });
+
+  await t.step("number - Should decode numbers except NaN.", () => {
+    assertEquals(Decoder.number.decode(1).unwrap(), 1);
+    assert(Decoder.number.decode(NaN).isErr());
+    assert(Decoder.number.decode("1").isErr());
+  });
+
+  await t.step("boolean - Should decode booleans.", () => {
+    assertEquals(Decoder.boolean.decode(false).unwrap(), false);
+    assert(Decoder.boolean.decode(0).isErr());
+  });
+
+  await t.step("literal - Should decode listed values.", () => {
+    const status = Decoder.literal("open", "closed", null);
+    const decoded: "open" | "closed" | null = status.decode(null).unwrap();
+
+    assertEquals(decoded, null);
+    assertEquals(
+      status.decode("pending").unwrapErr().message,
+      '$: expected "open" | "closed" | null'
+    );
+  });
+
+  await t.step("object - Should decode a typed object.", () => {
+    const res = order.decode({
+      id: "1",
+      status: "open",
+      items: [{ price: 2 }],
+      note: "Leave at door",
+      extra: true,
+    });
+    const value: {
+      id: string;
+      status: "open" | "closed";
+      items: Array<{ price: number }>;
+      note: Option<string>;
+    } = res.unwrap();
+
+    assertEquals(value.id, "1");
+    assertEquals(value.items, [{ price: 2 }]);
+    assertEquals(value.note.unwrap(), "Leave at door");
+    assert(!("extra" in value));
+  });
+
+  await t.step("object Error - Should list every failing path.", () => {
+    const error = order
+      .decode({
+        id: 1,
+        status: "open",
+        items: [{ price: 1 }, { price: "2" }, { price: -1 }],
+      })
+      .unwrapErr();
+
+    assert(error instanceof DecodeError);
+    assert(error instanceof ValidationError);
+    assertEquals(
+      error.message,
+      [
+        "$.id: expected string",
+        "$.items[1].price: expected number",
+        "$.items[2].price: expected a positive number",
+      ].join("\n")
+    );
+    assertEquals(error.issues[1].path, ["items", 1, "price"]);
+  });
+
+  await t.step("object Error - Should quote unusual keys.", () => {
+    const error = Decoder.object({ "content-type": Decoder.string })
+      .decode({})
+      .unwrapErr();
+    assertEquals(error.message, '$["content-type"]: expected string');
+  });
+
+  await t.step("array Error - Should reject non-arrays.", () => {
+    assertEquals(
+      Decoder.array(Decoder.number).decode({}).unwrapErr().message,
+      "$: expected array"
+    );
+  });
+
+  await t.step("optional - Should decode missing values as None.", () => {
+    const note = Decoder.optional(Decoder.string);
+
+    assert(note.decode(undefined).unwrap().isNone());
+    assert(note.decode(null).unwrap().isNone());
+    assertEquals(note.decode("Test").unwrap().unwrap(), "Test");
+    assert(note.decode(1).isErr());
+  });
+
+  await t.step("union - Should return the first success.", () => {
+    const id = Decoder.union(Decoder.string, Decoder.number);
+    const decoded: string | number = id.decode(1).unwrap();
+
+    assertEquals(decoded, 1);
+    assertEquals(
+      id.decode(true).unwrapErr().message,
+      "$: expected string | number"
+    );
+  });
+
+  await t.step("map - Should transform decoded values.", () => {
+    const date = Decoder.string.map((input) => new Date(input));
+    assertEquals(
+      date.decode("2020-01-01T00:00:00.000Z").unwrap().getTime(),
+      Date.UTC(2020, 0, 1)
+    );
+  });
+
+  await t.step("refine - Should narrow with type guards.", () => {
+    const even = Decoder.literal(1, 2, 3, 4).refine(
+      (n): n is 2 | 4 => n % 2 === 0,
+      "an even number"
+    );
+    const decoded: 2 | 4 = even.decode(2).unwrap();
+
+    assertEquals(decoded, 2);
+    assertEquals(
+      even.decode(3).unwrapErr().message,
+      "$: expected an even number"
+    );
+  });
+
+  await t.step("parse - Should parse and decode JSON.", () => {
+    const id = Decoder.object({ id: Decoder.number });
+
+    assertEquals(id.parse('{"id":1}').unwrap(), { id: 1 });
+    assert(id.parse('{"id":"1"}').unwrapErr() instanceof DecodeError);
+    assert(id.parse("{").unwrapErr() instanceof SyntaxError);
+  });
+});
@@ -0,0 +1,141 @@
+import { Result, Ok, Err } from "../result.ts";
+import { resultify, resultifyAsync } from "../decorators.ts";
+import {
+  assertEquals,
+  assert,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+class ConfigError extends Error {
+  readonly kind = "config";
+}
+
+class ConfigService {
+  prefix = "config";
+
+  @resultify
+  parse(text: string): Result<{ name: string }, Error> {
+    return Ok(JSON.parse(text));
+  }
+
+  @resultify((e) => new ConfigError(`${(e as Error).message}`, { cause: e }))
+  require(key: string): Result<string, ConfigError> {
+    if (!key) throw new Error("Missing key");
+    return Ok(`${this.prefix}.${key}`);
+  }
+
+  @resultify
+  check(value: number): Result<number, Error> {
+    return value > 0 ? Ok(value) : Err("Not positive");
+  }
+
+  @resultifyAsync
+  async load(path: string): Promise<Result<string, Error>> {
+    await Promise.resolve();
+    if (!path) throw new Error("Missing path");
+    return Ok(`Contents of ${path}`);
+  }
+
+  @resultifyAsync((e) => new ConfigError("Failed", { cause: e }))
+  save(path: string): Promise<Result<string, ConfigError>> {
+    return Promise.reject(new Error(`Cannot write ${path}`));
+  }
+}
+
+@resultify((e) => new ConfigError("Failed", { cause: e }))
+class Repository {
+  constructor(readonly rows: Array<string>) {}
+
+  get size() {
+    return this.rows.length;
+  }
+
+  find(index: number): Result<string, ConfigError> {
+    const row = this.rows[index];
+    if (row === undefined) throw new RangeError("No such row");
+    return Ok(row);
+  }
+
+  count(): Result<number, ConfigError> {
+    return Ok(this.rows.length);
+  }
+
+  async fetch(index: number): Promise<Result<string, ConfigError>> {
+    await Promise.resolve();
+    return this.find(index);
+  }
+
+  async fail(): Promise<Result<string, ConfigError>> {
+    await Promise.resolve();
+    throw new Error("Test");
+  }
+}
+
+// @ts-expect-error: Every method must return a Result.
+@resultify
+class NamedRepository {
+  name(): string {
+    return "svc";
+  }
+
+  find(): Result<string, Error> {
+    return Ok(this.name());
+  }
+}
+
+Deno.test("Decorators", async (t) => {
+  const service = new ConfigService();
+
+  await t.step("resultify - Should return the method's Result.", () => {
+    assertEquals(service.parse('{"name":"Test"}').unwrap(), { name: "Test" });
+    assertEquals(service.check(-1).unwrapErr().message, "Not positive");
+  });
+
+  await t.step("resultify - Should capture thrown Errors.", () => {
+    assert(service.parse("{").unwrapErr() instanceof SyntaxError);
+  });
+
+  await t.step("resultify - Should map thrown Errors.", () => {
+    assertEquals(service.require("name").unwrap(), "config.name");
+
+    const err = service.require("").unwrapErr();
+    assert(err instanceof ConfigError);
+    assertEquals(err.message, "Missing key");
+    assert(err.cause instanceof Error);
+  });
+
+  await t.step("resultifyAsync - Should capture rejections.", async () => {
+    assertEquals((await service.load("a.json")).unwrap(), "Contents of a.json");
+    assertEquals((await service.load("")).unwrapErr().message, "Missing path");
+  });
+
+  await t.step("resultifyAsync - Should map rejections.", async () => {
+    const err = (await service.save("a.json")).unwrapErr();
+    assert(err instanceof ConfigError);
+    assertEquals((err.cause as Error).message, "Cannot write a.json");
+  });
+
+  await t.step("resultify class - Should wrap every method.", async () => {
+    const repository = new Repository(["a"]);
+
+    assertEquals(repository.find(0).unwrap(), "a");
+    assert(repository.find(1).unwrapErr() instanceof ConfigError);
+    assertEquals(repository.count().unwrap(), 1);
+    assertEquals((await repository.fetch(0)).unwrap(), "a");
+    assert((await repository.fail()).unwrapErr() instanceof ConfigError);
+  });
+
+  await t.step("resultify class - Should leave accessors untouched.", () => {
+    assertEquals(new Repository(["a", "b"]).size, 2);
+  });
+
+  await t.step(
+    "resultify class - Should leave methods returning other values as they are.",
+    () => {
+      const repository = new NamedRepository();
+
+      assertEquals(repository.name(), "svc");
+      assertEquals(repository.name().toUpperCase(), "SVC");
+      assertEquals(repository.find().unwrap(), "svc");
+    }
+  );
+});
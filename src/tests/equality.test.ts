@@ -0,0 +1,273 @@
+import { Err, Ok, Result } from "../result.ts";
+import { None, Option, Some } from "../option.ts";
+import { compare, equal, hashKey, ValueMap, ValueSet } from "../equality.ts";
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+Deno.test("Equality", async (t) => {
+  await t.step("equal - Should compare nested values structurally.", () => {
+    assert(equal({ a: [Some(1), Ok("x")] }, { a: [Some(1), Ok("x")] }));
+    assert(equal({ a: 1, b: 2 }, { b: 2, a: 1 }));
+    assert(equal(NaN, NaN));
+    assert(!equal(0, -0));
+    assert(!equal({ a: undefined }, { b: undefined }));
+  });
+
+  await t.step(
+    "equal - Should compare Errors by class, name and message.",
+    () => {
+      assert(equal(new TypeError("bad"), new TypeError("bad")));
+      assert(!equal(new TypeError("bad"), new TypeError("worse")));
+      assert(!equal(new TypeError("bad"), new RangeError("bad")));
+    }
+  );
+
+  await t.step("compare - Should order primitives and arrays.", () => {
+    assertEquals([3, NaN, 1, 2].sort(compare), [1, 2, 3, NaN]);
+    assertEquals(["b", "a"].sort(compare), ["a", "b"]);
+    assertEquals([[1, 2], [1], [0, 5]].sort(compare), [[0, 5], [1], [1, 2]]);
+    assertEquals(compare(new Date(1), new Date(2)), -1);
+  });
+
+  await t.step("hashKey - Should match for equal values.", () => {
+    assertEquals(hashKey({ b: [1n], a: "x" }), hashKey({ a: "x", b: [1n] }));
+    assertEquals(hashKey(Some(None())), "Some(None)");
+    assertEquals(hashKey(Ok(Some(1))), "Ok(Some(1))");
+    assertEquals(hashKey(Err(new TypeError("bad"))), 'Err(TypeError("bad"))');
+    assert(hashKey(0) !== hashKey(-0));
+    assert(hashKey("1") !== hashKey(1));
+  });
+
+  await t.step("equal - Should compare Maps by their entries.", () => {
+    assert(equal(new Map([[1, { a: 1 }]]), new Map([[1, { a: 1 }]])));
+    assert(equal(new Map([[{ k: 1 }, 2]]), new Map([[{ k: 1 }, 2]])));
+    assert(!Some(new Map([[1, 1]])).equals(Some(new Map())));
+    assert(!equal(new Map([[1, 1]]), new Map([[1, 2]])));
+    assert(!equal(new Map([[1, 1]]), new Map([[2, 1]])));
+  });
+
+  await t.step("equal - Should compare Sets in any order.", () => {
+    assert(equal(new Set([1, 2]), new Set([2, 1])));
+    assert(equal(new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 2 }, { a: 1 }])));
+    assert(!equal(new Set([1]), new Set([2])));
+    assert(
+      !equal(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 2 }]))
+    );
+  });
+
+  await t.step("equal - Should compare RegExps by source and flags.", () => {
+    assert(equal(/a/g, /a/g));
+    assert(!equal(/a/, /b/));
+    assert(!equal(/a/, /a/i));
+  });
+
+  await t.step("equal - Should compare typed arrays by their elements.", () => {
+    assert(equal(new Uint8Array([1, 2]), new Uint8Array([1, 2])));
+    assert(!equal(new Uint8Array([1, 2]), new Uint8Array([1, 3])));
+    assert(!equal(new Uint8Array([1]), new Int8Array([1])));
+    assert(equal(new Float64Array([NaN]), new Float64Array([NaN])));
+    assert(!equal(new Uint8Array([1]).buffer, new Uint8Array([2]).buffer));
+    assert(
+      equal(new DataView(new ArrayBuffer(2)), new DataView(new ArrayBuffer(2)))
+    );
+  });
+
+  await t.step("equal - Should compare cyclic values.", () => {
+    const left: Record<string, unknown> = { id: 1 };
+    left.self = left;
+    left.option = Some(left);
+    const right: Record<string, unknown> = { id: 1 };
+    right.self = right;
+    right.option = Some(right);
+
+    assert(equal(left, right));
+    right.id = 2;
+    assert(!equal(left, right));
+  });
+
+  await t.step(
+    "hashKey - Should describe Maps, Sets, RegExps and typed arrays.",
+    () => {
+      assertEquals(
+        hashKey(
+          new Map([
+            [2, "b"],
+            [1, "a"],
+          ])
+        ),
+        hashKey(
+          new Map([
+            [1, "a"],
+            [2, "b"],
+          ])
+        )
+      );
+      assert(hashKey(new Map([[1, 1]])) !== hashKey(new Map()));
+      assertEquals(hashKey(new Set([2, 1])), hashKey(new Set([1, 2])));
+      assert(hashKey(new Set([1])) !== hashKey(new Set([2])));
+      assert(hashKey(/a/) !== hashKey(/b/));
+      assert(hashKey(new Uint8Array([1])) !== hashKey(new Uint8Array([2])));
+      assertEquals(new ValueSet([new Set([1]), new Set([2])]).size, 2);
+    }
+  );
+
+  await t.step("hashKey - Should describe cyclic values.", () => {
+    const value: Record<string, unknown> = {};
+    value.self = Ok(value);
+
+    assertEquals(hashKey(value), "[Circular]");
+    assertEquals(hashKey(Some(value)), "Some([Circular])");
+    assertEquals(new ValueSet([value, { self: Ok(value) }]).size, 1);
+  });
+});
+
+Deno.test("Option equality", async (t) => {
+  await t.step("equals - Should compare variants and values.", () => {
+    assert(Some({ id: 1 }).equals(Some({ id: 1 })));
+    assert(None().equals(None()));
+    assert(!Some(1).equals(None()));
+    assert(!None<number>().equals(Some(1)));
+    assert(!Some(1).equals(Some(2)));
+  });
+
+  await t.step("equals - Should use a custom equality.", () => {
+    const insensitive = (a: string, b: string) =>
+      a.toLowerCase() === b.toLowerCase();
+
+    assert(Some("a").equals(Some("A"), insensitive));
+    assert(!Some("a").equals(Some("A")));
+  });
+
+  await t.step("compare - Should order None before Some.", () => {
+    assertEquals(None().compare(Some(1)), -1);
+    assertEquals(Some(1).compare(None()), 1);
+    assertEquals(None().compare(None()), 0);
+    assertEquals(
+      Some(1).compare(Some(2), (a, b) => b - a),
+      1
+    );
+  });
+
+  await t.step("Option.compare - Should sort Options.", () => {
+    const sorted = [Some(2), None<number>(), Some(1)].sort(Option.compare);
+    assert(sorted[0].isNone());
+    assert(sorted[1].equals(Some(1)));
+    assert(sorted[2].equals(Some(2)));
+    assert(Option.equals(Some([1]), Some([1])));
+  });
+
+  await t.step("hashKey - Should key a ValueMap.", () => {
+    const counts = new ValueMap<Option<string>, number>();
+    counts.set(Some("a"), 1).set(None(), 2).set(Some("a"), 3);
+
+    assertEquals(counts.size, 2);
+    assertEquals(counts.get(Some("a")), 3);
+    assertEquals(counts.get(None()), 2);
+    assertEquals(counts.get(Some("b")), undefined);
+  });
+});
+
+Deno.test("Result equality", async (t) => {
+  await t.step("equals - Should compare variants and values.", () => {
+    assert(Ok({ id: 1 }).equals(Ok({ id: 1 })));
+    assert(Err(new TypeError("bad")).equals(Err(new TypeError("bad"))));
+    assert(!Ok<Error, Error>(new Error("x")).equals(Err(new Error("x"))));
+    assert(!Err(new TypeError("bad")).equals(Err(new RangeError("bad"))));
+  });
+
+  await t.step("equals - Should use a custom equality for Ok values.", () => {
+    const close = (a: number, b: number) => Math.abs(a - b) < 0.01;
+
+    assert(Ok(0.1 + 0.2).equals(Ok(0.3), close));
+    assert(!Ok(0.1 + 0.2).equals(Ok(0.3)));
+  });
+
+  await t.step("compare - Should order Ok before Err.", () => {
+    const ok: Result<number, Error> = Ok(1);
+    const err: Result<number, Error> = Err("Oops");
+
+    assertEquals(ok.compare(err), -1);
+    assertEquals(err.compare(ok), 1);
+    assertEquals(ok.compare(err, { errFirst: true }), 1);
+    assertEquals(err.compare(Err("Boom")), 1);
+    assertEquals(ok.compare(Ok(2), { ok: (a, b) => b - a }), 1);
+  });
+
+  await t.step("Result.compare - Should sort Results.", () => {
+    const results: Array<Result<number, Error>> = [Err("b"), Ok(2), Ok(1)];
+
+    assertEquals(results.sort(Result.compare).map(hashKey), [
+      "Ok(1)",
+      "Ok(2)",
+      'Err(Error("b"))',
+    ]);
+    assertEquals(
+      results
+        .sort((a, b) => Result.compare(a, b, { errFirst: true }))
+        .map(hashKey),
+      ['Err(Error("b"))', "Ok(1)", "Ok(2)"]
+    );
+    assert(Result.equals(Ok([1]), Ok([1])));
+  });
+});
+
+Deno.test("ValueMap", async (t) => {
+  await t.step("set - Should replace values for equal keys.", () => {
+    const map = new ValueMap([
+      [{ a: 1 }, "first"],
+      [{ a: 1 }, "second"],
+      [{ a: 2 }, "third"],
+    ]);
+
+    assertEquals(map.size, 2);
+    assertEquals(map.get({ a: 1 }), "second");
+    assertEquals([...map.keys()], [{ a: 1 }, { a: 2 }]);
+    assertEquals([...map.values()], ["second", "third"]);
+  });
+
+  await t.step("delete - Should remove equal keys.", () => {
+    const map = new ValueMap([[Ok(1), "one"]]);
+
+    assert(!map.delete(Ok(2)));
+    assert(map.delete(Ok(1)));
+    assert(!map.has(Ok(1)));
+    assertEquals(map.size, 0);
+  });
+
+  await t.step("set - Should keep colliding keys apart.", () => {
+    const map = new ValueMap([
+      [Symbol("x"), 1],
+      [Symbol("x"), 2],
+    ]);
+
+    assertEquals(map.size, 2);
+    assertEquals([...map.values()], [1, 2]);
+  });
+});
+
+Deno.test("ValueSet", async (t) => {
+  await t.step("add - Should ignore equal values.", () => {
+    const set = new ValueSet<Result<number, Error>>([
+      Ok(1),
+      Ok(1),
+      Err(new Error("Oops")),
+      Err(new Error("Oops")),
+    ]);
+
+    assertEquals(set.size, 2);
+    assert(set.has(Ok(1)));
+    assert(set.has(Err(new Error("Oops"))));
+    assert(!set.has(Ok(2)));
+  });
+
+  await t.step("delete - Should remove equal values.", () => {
+    const set = new ValueSet([Some("a"), None()]);
+
+    assert(set.delete(None()));
+    assertEquals([...set].map(hashKey), ['Some("a")']);
+    set.clear();
+    assertEquals(set.size, 0);
+  });
+});
@@ -0,0 +1,114 @@
+import { Err, Ok } from "../result.ts";
+import { None, Some } from "../option.ts";
+import { format, Inspect, InspectOptions, nodeInspect } from "../inspect.ts";
+import { assertEquals } from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+const nested = { a: { b: { c: 1 } } };
+
+/**
+ * Call the Node inspection hook directly, recording the depth passed to the nested `inspect`.
+ */
+function inspectNode(value: unknown, depth: number | null): [string, unknown] {
+  let nestedDepth: unknown;
+  const inspect: Inspect = (value, options) => {
+    nestedDepth = options?.depth;
+    return Deno.inspect(value, { depth: options?.depth ?? Infinity });
+  };
+
+  const hook = (value as Record<symbol, unknown>)[nodeInspect] as (
+    depth: number | null,
+    options: InspectOptions,
+    inspect: Inspect
+  ) => string;
+
+  return [hook.call(value, depth, { depth }, inspect), nestedDepth];
+}
+
+Deno.test("Inspect", async (t) => {
+  await t.step("toString - Should show the variant and value.", () => {
+    assertEquals(Some(5).toString(), "Some(5)");
+    assertEquals(String(None()), "None");
+    assertEquals(`${Ok({ id: 1 })}`, "Ok({ id: 1 })");
+    assertEquals(
+      String(Err(new TypeError("bad input"))),
+      "Err(TypeError: bad input)"
+    );
+    assertEquals(String(Some([Ok("x"), None()])), 'Some([Ok("x"), None])');
+  });
+
+  await t.step("Deno.inspect - Should show the variant and value.", () => {
+    assertEquals(Deno.inspect(Some(5)), "Some(5)");
+    assertEquals(Deno.inspect(None()), "None");
+    assertEquals(Deno.inspect(Ok({ id: 1 })), "Ok({ id: 1 })");
+    assertEquals(
+      Deno.inspect(Err(new TypeError("bad input"))),
+      "Err(TypeError: bad input)"
+    );
+  });
+
+  await t.step("Deno.inspect - Should show nested values.", () => {
+    assertEquals(Deno.inspect(Some(Ok([None()]))), "Some(Ok([ None ]))");
+    assertEquals(
+      Deno.inspect({ user: Some({ name: "Ferris" }) }),
+      '{ user: Some({ name: "Ferris" }) }'
+    );
+  });
+
+  await t.step("Deno.inspect - Should respect the depth.", () => {
+    assertEquals(
+      Deno.inspect(Some(nested), { depth: 1 }),
+      "Some({ a: [Object] })"
+    );
+    assertEquals(
+      Deno.inspect({ x: Ok(nested) }, { depth: 1 }),
+      "{ x: Ok([Object]) }"
+    );
+  });
+
+  await t.step("Deno.inspect - Should respect colours.", () => {
+    assertEquals(
+      Deno.inspect(Some(1), { colors: true }),
+      "Some(\x1b[33m1\x1b[39m)"
+    );
+    assertEquals(Deno.inspect(Some(1), { colors: false }), "Some(1)");
+  });
+
+  await t.step("util.inspect - Should pass on the remaining depth.", () => {
+    assertEquals(inspectNode(Some(nested), 1), ["Some({ a: [Object] })", 0]);
+    assertEquals(inspectNode(Ok(5), null), ["Ok(5)", null]);
+    assertEquals(inspectNode(None(), 1), ["None", undefined]);
+    assertEquals(inspectNode(Err(new RangeError("too big")), 2), [
+      "Err(RangeError: too big)",
+      undefined,
+    ]);
+  });
+
+  await t.step("toString - Should show Dates, Maps, Sets and RegExps.", () => {
+    assertEquals(Ok(new Date(0)).toString(), "Ok(1970-01-01T00:00:00.000Z)");
+    assertEquals(String(Some(new Date(NaN))), "Some(Invalid Date)");
+    assertEquals(
+      String(Some(new Map([[1, { a: 2 }]]))),
+      "Some(Map(1) { 1 => { a: 2 } })"
+    );
+    assertEquals(String(Ok(new Set(["x", 1]))), 'Ok(Set(2) { "x", 1 })');
+    assertEquals(String(Some(new Map())), "Some(Map(0) {})");
+    assertEquals(String(Ok(/a+/g)), "Ok(/a+/g)");
+  });
+
+  await t.step(
+    "toString - Should show cycles as [Circular], but not repeated values.",
+    () => {
+      const value: Record<string, unknown> = { id: 1 };
+      value.self = value;
+      value.option = Some(value);
+
+      assertEquals(
+        Some(value).toString(),
+        "Some({ id: 1, self: [Circular], option: Some([Circular]) })"
+      );
+
+      const shared = { id: 2 };
+      assertEquals(format([shared, shared]), "[{ id: 2 }, { id: 2 }]");
+    }
+  );
+});
@@ -0,0 +1,230 @@
+import { Option, Some, None } from "../option.ts";
+import { Result, Ok, Err } from "../result.ts";
+import { ErrorRegistry, reviver, serializeError } from "../json.ts";
+import { RetryError } from "../retry.ts";
+import { ValidationError } from "../validation.ts";
+import {
+  assertEquals,
+  assert,
+  assertThrows,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+class NotFoundError extends Error {
+  override name = "NotFoundError";
+  readonly status = 404;
+
+  constructor(readonly resource: string) {
+    super(`${resource} not found`);
+  }
+}
+
+Deno.test("JSON", async (t) => {
+  await t.step("Result.toJSON - Should tag Ok values.", () => {
+    assertEquals(JSON.stringify(Ok(1)), '{"$optionals":"Ok","value":1}');
+  });
+
+  await t.step("Result.toJSON - Should serialize Errors.", () => {
+    const error = new TypeError("Test", { cause: new Error("Cause") });
+    const json = Err(error).toJSON();
+
+    assertEquals(json.$optionals, "Err");
+    if (json.$optionals === "Err") {
+      assertEquals(json.error.name, "TypeError");
+      assertEquals(json.error.message, "Test");
+      assertEquals(json.error.stack, error.stack);
+      assertEquals((json.error.cause as { message: string }).message, "Cause");
+    }
+  });
+
+  await t.step("Result.toJSON - Should keep non-Error values.", () => {
+    const res = new Result<number, string>("Test", "Err");
+    assertEquals(JSON.stringify(res), '{"$optionals":"Err","error":"Test"}');
+  });
+
+  await t.step("Option.toJSON - Should tag Some and None.", () => {
+    assertEquals(JSON.stringify(Some(1)), '{"$optionals":"Some","value":1}');
+    assertEquals(JSON.stringify(None()), '{"$optionals":"None"}');
+  });
+
+  await t.step("Result.fromJSON - Should round trip Ok values.", () => {
+    const res = Result.fromJSON<{ id: number }>(JSON.stringify(Ok({ id: 1 })));
+    assert(res.isOk());
+    assertEquals(res.unwrap(), { id: 1 });
+  });
+
+  await t.step("Result.fromJSON - Should rebuild built-in Errors.", () => {
+    const error = new RangeError("Test", { cause: new Error("Cause") });
+    const res = Result.fromJSON(JSON.stringify(Err(error)));
+    const rebuilt = res.unwrapErr();
+
+    assert(rebuilt instanceof RangeError);
+    assertEquals(rebuilt.message, "Test");
+    assertEquals(rebuilt.stack, error.stack);
+    assert(rebuilt.cause instanceof Error);
+    assertEquals(rebuilt.cause.message, "Cause");
+  });
+
+  await t.step("Result.fromJSON - Should rebuild registered Errors.", () => {
+    const registry = new ErrorRegistry().register(NotFoundError);
+    const json = JSON.stringify(Err(new NotFoundError("User")));
+    const rebuilt = Result.fromJSON(json, registry).unwrapErr();
+
+    assert(rebuilt instanceof NotFoundError);
+    assertEquals(rebuilt.message, "User not found");
+    assertEquals(rebuilt.resource, "User");
+    assertEquals(rebuilt.status, 404);
+  });
+
+  await t.step("Result.fromJSON - Should keep unregistered names.", () => {
+    const rebuilt = Result.fromJSON(
+      JSON.stringify(Err(new NotFoundError("User")))
+    ).unwrapErr();
+
+    assert(rebuilt instanceof Error);
+    assert(!(rebuilt instanceof NotFoundError));
+    assertEquals(rebuilt.name, "NotFoundError");
+    assertEquals(rebuilt.message, "User not found");
+  });
+
+  await t.step("Result.fromJSON - Should accept parsed objects.", () => {
+    const res = Result.fromJSON<number, string>({
+      $optionals: "Err",
+      error: "Test",
+    });
+    assertEquals(res.unwrapErr(), "Test");
+  });
+
+  await t.step("Result.fromJSON Error - Should reject untagged JSON.", () => {
+    assertThrows(() => Result.fromJSON('{"value":1}'), TypeError);
+  });
+
+  await t.step("Option.fromJSON - Should round trip nested values.", () => {
+    const option = Option.fromJSON<Option<Result<number, Error>>>(
+      JSON.stringify(Some(Some(Ok(1))))
+    );
+    assertEquals(option.unwrap().unwrap().unwrap(), 1);
+    assert(Option.fromJSON(JSON.stringify(None())).isNone());
+  });
+
+  await t.step("reviver - Should rebuild tagged values anywhere.", () => {
+    const body = JSON.parse(
+      JSON.stringify({ user: Some("Test"), saved: Err("Test"), count: 1 }),
+      reviver()
+    );
+
+    assert(body.user instanceof Option);
+    assert(body.saved instanceof Result);
+    assertEquals(body.saved.unwrapErr().message, "Test");
+    assertEquals(body.count, 1);
+  });
+
+  await t.step("serializeError - Should keep own fields.", () => {
+    const json = serializeError(new NotFoundError("User"));
+    assertEquals(json.resource, "User");
+    assertEquals(json.name, "NotFoundError");
+  });
+
+  await t.step(
+    "reviver - Should leave user data with a tag field alone.",
+    () => {
+      const res = Result.fromJSON(JSON.stringify(Ok({ tag: "None" })));
+      assertEquals(res.unwrap(), { tag: "None" });
+
+      const body = JSON.parse('{"tag":"Ok","value":1}', reviver());
+      assertEquals(body, { tag: "Ok", value: 1 });
+    }
+  );
+
+  await t.step("Result.fromJSON - Should rebuild AggregateErrors.", () => {
+    const error = new AggregateError(
+      [new TypeError("First"), new AggregateError([new Error("Nested")])],
+      "Both"
+    );
+    const rebuilt = Result.fromJSON(JSON.stringify(Err(error))).unwrapErr();
+
+    assert(rebuilt instanceof AggregateError);
+    assertEquals(rebuilt.errors.length, 2);
+    assert(rebuilt.errors[0] instanceof TypeError);
+    assertEquals(rebuilt.errors[0].message, "First");
+    assertEquals(rebuilt.errors[1].errors[0].message, "Nested");
+    assert(!Object.keys(rebuilt).includes("errors"));
+  });
+
+  await t.step(
+    "Result.fromJSON - Should rebuild RetryErrors and ValidationErrors.",
+    () => {
+      const registry = new ErrorRegistry()
+        .register(RetryError)
+        .register(ValidationError);
+
+      const retry = Result.fromJSON(
+        JSON.stringify(Err(new RetryError([new Error("1"), new Error("2")]))),
+        registry
+      ).unwrapErr() as RetryError;
+      assert(retry instanceof RetryError);
+      assertEquals(
+        retry.errors.map((e) => e.message),
+        ["1", "2"]
+      );
+      assertEquals(retry.last.message, "2");
+
+      const validation = Result.fromJSON(
+        JSON.stringify(
+          Err(
+            new ValidationError([
+              { path: ["name"], error: new TypeError("Required") },
+            ])
+          )
+        ),
+        registry
+      ).unwrapErr() as ValidationError;
+      assert(validation instanceof ValidationError);
+      assert(validation.errors[0] instanceof TypeError);
+      assertEquals(validation.issues[0].path, ["name"]);
+      assert(validation.issues[0].error instanceof TypeError);
+      assertEquals(validation.issues[0].error.message, "Required");
+    }
+  );
+
+  await t.step("toJSON - Should serialize Errors in every variant.", () => {
+    const ok = Result.fromJSON<Error>(JSON.stringify(Ok(new Error("boom"))));
+    assert(ok.unwrap() instanceof Error);
+    assertEquals(ok.unwrap().message, "boom");
+
+    const some = Option.fromJSON<Array<Error>>(
+      JSON.stringify(Some([new RangeError("too big")]))
+    );
+    assert(some.unwrap()[0] instanceof RangeError);
+  });
+
+  await t.step("toJSON - Should serialize Errors nested in Err values.", () => {
+    const res = new Result<number, { code: number; inner: Error }>(
+      { code: 500, inner: new TypeError("bad") },
+      "Err"
+    );
+    const revived = Result.fromJSON<number, { code: number; inner: Error }>(
+      JSON.stringify(res)
+    );
+
+    assertEquals(revived.unwrapErr().code, 500);
+    assert(revived.unwrapErr().inner instanceof TypeError);
+    assertEquals(revived.unwrapErr().inner.message, "bad");
+  });
+
+  await t.step(
+    "fromJSON - Should keep plain objects shaped like Errors.",
+    () => {
+      const res = new Result<number, { name: string; message: string }>(
+        { name: "x", message: "y" },
+        "Err"
+      );
+      const revived = Result.fromJSON<
+        number,
+        { name: string; message: string }
+      >(JSON.stringify(res));
+
+      assert(!(revived.unwrapErr() instanceof Error));
+      assertEquals(revived.unwrapErr(), { name: "x", message: "y" });
+    }
+  );
+});
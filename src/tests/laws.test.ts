@@ -0,0 +1,195 @@
+import { Err, Ok, Result } from "../result.ts";
+import { None, Option, Some } from "../option.ts";
+import { assertResultEquals } from "../../testing.ts";
+
+/**
+ * A seeded pseudo-random number generator (mulberry32), so failures can be replayed.
+ */
+function prng(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Gen<T> = (random: () => number) => T;
+
+const int: Gen<number> = (random) => Math.floor(random() * 201) - 100;
+
+const string: Gen<string> = (random) =>
+  Math.floor(random() * 36 ** 3).toString(36);
+
+function oneOf<T>(...gens: Array<Gen<T>>): Gen<T> {
+  return (random) => gens[Math.floor(random() * gens.length)](random);
+}
+
+function option<T>(gen: Gen<T>): Gen<Option<T>> {
+  return oneOf<Option<T>>(
+    () => None(),
+    (random) => Some(gen(random))
+  );
+}
+
+function result<T>(gen: Gen<T>): Gen<Result<T, Error>> {
+  return oneOf<Result<T, Error>>(
+    (random) => Ok(gen(random)),
+    (random) => Err(new Error(string(random)))
+  );
+}
+
+/**
+ * Generate functions from numbers by picking one of a few shapes, so laws are checked against varied behaviour.
+ */
+const fn: Gen<(input: number) => number> = oneOf(
+  (random) => {
+    const n = int(random);
+    return (input) => input + n;
+  },
+  (random) => {
+    const n = int(random);
+    return (input) => input * n;
+  },
+  () => (input) => -input
+);
+
+const optionFn: Gen<(input: number) => Option<number>> = (random) => {
+  const f = fn(random);
+  const modulus = 2 + Math.floor(random() * 3);
+  return (input) => (Math.abs(input) % modulus === 0 ? None() : Some(f(input)));
+};
+
+const resultFn: Gen<(input: number) => Result<number, Error>> = (random) => {
+  const f = fn(random);
+  const modulus = 2 + Math.floor(random() * 3);
+  return (input) =>
+    Math.abs(input) % modulus === 0
+      ? Err(new Error(`${input} is divisible by ${modulus}`))
+      : Ok(f(input));
+};
+
+const SEED = 20221017;
+const RUNS = 200;
+
+/**
+ * Check a property against generated inputs, reporting the seed and run of the first failure.
+ */
+function forAll<A extends unknown[]>(
+  gens: { [K in keyof A]: Gen<A[K]> },
+  property: (...args: A) => void
+) {
+  const random = prng(SEED);
+
+  for (let run = 0; run < RUNS; run++) {
+    const args = gens.map((gen) => gen(random)) as A;
+
+    try {
+      property(...args);
+    } catch (error) {
+      throw new Error(`Property failed on run ${run} of seed ${SEED}`, {
+        cause: error,
+      });
+    }
+  }
+}
+
+Deno.test("Option laws", async (t) => {
+  await t.step("Functor identity - Should map identity to itself.", () => {
+    forAll([option(int)], (m) => {
+      assertResultEquals(
+        m.map((x) => x),
+        m
+      );
+    });
+  });
+
+  await t.step("Functor composition - Should map f then g as g∘f.", () => {
+    forAll([option(int), fn, fn], (m, f, g) => {
+      assertResultEquals(
+        m.map(f).map(g),
+        m.map((x) => g(f(x)))
+      );
+    });
+  });
+
+  await t.step("Monad left identity - Should bind Some(a) as f(a).", () => {
+    forAll([int, optionFn], (a, f) => {
+      assertResultEquals(Some(a).andThen(f), f(a));
+    });
+  });
+
+  await t.step("Monad right identity - Should bind Some to itself.", () => {
+    forAll([option(int)], (m) => {
+      assertResultEquals(
+        m.andThen((x) => Some(x)),
+        m
+      );
+    });
+  });
+
+  await t.step("Monad associativity - Should nest binds either way.", () => {
+    forAll([option(int), optionFn, optionFn], (m, f, g) => {
+      assertResultEquals(
+        m.andThen(f).andThen(g),
+        m.andThen((x) => f(x).andThen(g))
+      );
+    });
+  });
+
+  await t.step("flatten - Should flatten a map as andThen.", () => {
+    forAll([option(int), optionFn], (m, f) => {
+      assertResultEquals(m.map(f).flatten(), m.andThen(f));
+    });
+  });
+});
+
+Deno.test("Result laws", async (t) => {
+  await t.step("Functor identity - Should map identity to itself.", () => {
+    forAll([result(int)], (m) => {
+      assertResultEquals(
+        m.map((x) => x),
+        m
+      );
+    });
+  });
+
+  await t.step("Functor composition - Should map f then g as g∘f.", () => {
+    forAll([result(int), fn, fn], (m, f, g) => {
+      assertResultEquals(
+        m.map(f).map(g),
+        m.map((x) => g(f(x)))
+      );
+    });
+  });
+
+  await t.step("Monad left identity - Should bind Ok(a) as f(a).", () => {
+    forAll([int, resultFn], (a, f) => {
+      assertResultEquals(Ok<number, Error>(a).andThen(f), f(a));
+    });
+  });
+
+  await t.step("Monad right identity - Should bind Ok to itself.", () => {
+    forAll([result(int)], (m) => {
+      assertResultEquals(
+        m.andThen((x) => Ok(x)),
+        m
+      );
+    });
+  });
+
+  await t.step("Monad associativity - Should nest binds either way.", () => {
+    forAll([result(int), resultFn, resultFn], (m, f, g) => {
+      assertResultEquals(
+        m.andThen(f).andThen(g),
+        m.andThen((x) => f(x).andThen(g))
+      );
+    });
+  });
+
+  await t.step("flatten - Should flatten a map as andThen.", () => {
+    forAll([result(int), resultFn], (m, f) => {
+      assertResultEquals(m.map(f).flatten(), m.andThen(f));
+    });
+  });
+});
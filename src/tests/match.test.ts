@@ -0,0 +1,91 @@
+import { Option, Some, None } from "../option.ts";
+import { Result, Ok, Err } from "../result.ts";
+import {
+  assertEquals,
+  assert,
+  fail,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+function describe(input: Option<number>): string {
+  return input.match({
+    Some: [
+      [0, () => "zero"],
+      [(n) => n < 0, (n) => `negative ${n}`],
+      (n) => `positive ${n}`,
+    ],
+    None: () => "none",
+  });
+}
+
+Deno.test("match", async (t) => {
+  await t.step("Cases - Should match literal values.", () => {
+    assertEquals(describe(Some(0)), "zero");
+  });
+
+  await t.step("Cases - Should match guards in order.", () => {
+    assertEquals(describe(Some(-2)), "negative -2");
+  });
+
+  await t.step("Cases - Should fall through to the catch-all.", () => {
+    assertEquals(describe(Some(3)), "positive 3");
+    assertEquals(describe(None()), "none");
+  });
+
+  await t.step("Cases - Should compare literals with Object.is.", () => {
+    const res = Some(NaN).match({
+      Some: [[NaN, () => "NaN"], () => "number"],
+      None: () => "none",
+    });
+    assertEquals(res, "NaN");
+  });
+
+  await t.step("Cases Error - Should match on the Err value.", () => {
+    enum Code {
+      NotFound,
+      Forbidden,
+    }
+    const res = Err<string, Code>(Code.Forbidden).match({
+      Ok: (value) => value,
+      Err: [[Code.NotFound, () => "missing"], () => "denied"],
+    });
+    assertEquals(res, "denied");
+  });
+
+  await t.step("Nested - Should match Ok(Some(x)) in one call.", () => {
+    const arms = {
+      Ok: { Some: (n: number) => `found ${n}`, None: () => "missing" },
+      Err: (e: Error) => `failed ${e.message}`,
+    };
+    const found: Result<Option<number>, Error> = Ok(Some(1));
+    const missing: Result<Option<number>, Error> = Ok(None());
+    const failed: Result<Option<number>, Error> = Err("Test");
+
+    assertEquals(found.match(arms), "found 1");
+    assertEquals(missing.match(arms), "missing");
+    assertEquals(failed.match(arms), "failed Test");
+  });
+
+  await t.step("Nested - Should combine nested arms and cases.", () => {
+    const res = Some(Ok<number, Error>(5)).match({
+      Some: {
+        Ok: [[5, () => "five"], () => "other"],
+        Err: () => "error",
+      },
+      None: () => "none",
+    });
+    assertEquals(res, "five");
+  });
+
+  await t.step("Cases - Should throw without a catch-all handler.", () => {
+    try {
+      Some(1).match({
+        Some: [[2, () => "two"]] as never,
+        None: () => "none",
+      });
+    } catch (e) {
+      assert(e instanceof TypeError);
+      return;
+    }
+    fail("Method did not throw.");
+  });
+});
@@ -0,0 +1,140 @@
+import { Err, Ok, Result } from "../result.ts";
+import { isMustUseEnabled, UnhandledErr, unhandledErrs } from "../must_use.ts";
+import { AssertionError, assertNoUnhandledResults } from "../../testing.ts";
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertStringIncludes,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+/**
+ * Create an Err and drop it straight away, from a separate function so that it can be garbage collected.
+ */
+function dropErr(message: string): void {
+  Err(message);
+}
+
+Deno.test("MustUse", async (t) => {
+  await t.step(
+    "enableMustUse - Should track Errs until a method is called.",
+    () => {
+      Result.enableMustUse();
+      assert(isMustUseEnabled());
+
+      const err = Err("Oops");
+      Ok(1);
+      assertEquals(unhandledErrs().length, 1);
+      assertEquals((unhandledErrs()[0].error as Error).message, "Oops");
+      assertStringIncludes(unhandledErrs()[0].stack, "must_use.test.ts");
+
+      assert(err.isErr());
+      assertEquals(unhandledErrs(), []);
+
+      Result.disableMustUse();
+    }
+  );
+
+  await t.step(
+    "enableMustUse - Should pass the duty along when the same Err is returned.",
+    () => {
+      Result.enableMustUse();
+
+      const err = Err<number, Error>("Oops").map((x: number) => x + 1);
+      assertEquals(unhandledErrs().length, 1);
+
+      err.unwrapOr(0);
+      assertEquals(unhandledErrs(), []);
+
+      Result.disableMustUse();
+    }
+  );
+
+  await t.step(
+    "disableMustUse - Should restore the methods and stop tracking.",
+    () => {
+      const unwrapOr = Result.prototype.unwrapOr;
+
+      Result.enableMustUse();
+      assert(Result.prototype.unwrapOr !== unwrapOr);
+      Err("Oops");
+
+      Result.disableMustUse();
+      assert(!isMustUseEnabled());
+      assert(Result.prototype.unwrapOr === unwrapOr);
+      assertEquals(unhandledErrs(), []);
+
+      Err("Oops");
+      assertEquals(unhandledErrs(), []);
+    }
+  );
+
+  await t.step(
+    "assertNoUnhandledResults - Should pass when every Err is handled.",
+    async () => {
+      await assertNoUnhandledResults(async () => {
+        const res = await Promise.resolve(Err("Oops"));
+        res.match({ Ok: () => 1, Err: () => 0 });
+        Ok(1);
+      });
+
+      assert(!isMustUseEnabled());
+    }
+  );
+
+  await t.step(
+    "assertNoUnhandledResults - Should fail with the leaked Errs and their stacks.",
+    async () => {
+      const error = await assertRejects(
+        () =>
+          assertNoUnhandledResults(() => {
+            Err<number, Error>("Oops").map((x: number) => x + 1);
+          }, "parse"),
+        AssertionError
+      );
+
+      assertStringIncludes(error.message, "parse: 1 unhandled Err(s) leaked");
+      assertStringIncludes(error.message, "Error: Oops");
+      assertStringIncludes(error.message, "must_use.test.ts");
+      assert(!isMustUseEnabled());
+    }
+  );
+
+  await t.step(
+    "assertNoUnhandledResults - Should ignore Errs created beforehand.",
+    async () => {
+      Result.enableMustUse();
+      const err = Err("Before");
+
+      await assertNoUnhandledResults(() => {});
+      assert(isMustUseEnabled());
+
+      err.isErr();
+      Result.disableMustUse();
+    }
+  );
+
+  await t.step({
+    name: "enableMustUse - Should report Errs garbage collected unhandled.",
+    ignore: typeof (globalThis as { gc?: unknown }).gc !== "function",
+    fn: async () => {
+      const reported: UnhandledErr[] = [];
+      Result.enableMustUse({ onUnhandled: (entry) => reported.push(entry) });
+
+      dropErr("Dropped");
+      const kept = Err("Kept");
+
+      for (let i = 0; i < 10 && reported.length === 0; i++) {
+        (globalThis as unknown as { gc: () => void }).gc();
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      assertEquals(reported.length, 1);
+      assertEquals((reported[0].error as Error).message, "Dropped");
+      assertStringIncludes(reported[0].stack, "dropErr");
+
+      kept.isErr();
+      Result.disableMustUse();
+    },
+  });
+});
@@ -1,7 +1,9 @@
 import { Option, Some, None, none } from "../option.ts";
+import { Result, Ok, Err } from "../result.ts";
 import {
   assertEquals,
   assert,
+  assertThrows,
   fail,
 } from "https://deno.land/std@0.159.0/testing/asserts.ts";
 
@@ -137,10 +139,251 @@ Deno.test("Option", async (t) => {
     assertEquals(res.isErr(), true);
   });
 
-  await t.step("flatten - Should converts from Option<Option<T>> to Option<T>", () => {
-    const res = new Option<Option<string>>(new Option<string>('test'))
-    assertEquals(res.flatten(), new Option('test'))
-  })
+  await t.step(
+    "flatten - Should converts from Option<Option<T>> to Option<T>",
+    () => {
+      const res = new Option<Option<string>>(new Option<string>("test"));
+      assertEquals(res.flatten(), new Option("test"));
+    }
+  );
+
+  await t.step("flatten Type - Should unwrap the nested Option type.", () => {
+    const res: Option<string> = Some(Some("test")).flatten();
+    assertEquals(res.unwrap(), "test");
+  });
+
+  await t.step("okOrElse - Should convert Some to Ok.", () => {
+    const res = new Option("Ok").okOrElse(() => "Test");
+    assertEquals(res.unwrap(), "Ok");
+  });
+
+  await t.step("okOrElse None - Should convert None to a computed Err.", () => {
+    const res = new Option<string>(none).okOrElse(() => new TypeError("Err"));
+    assert(res.unwrapErr() instanceof TypeError);
+  });
+
+  await t.step("okOr String - Should not be typed as holding a string.", () => {
+    const res: Result<number, Error> = None<number>().okOr("Err");
+    assert(res.unwrapErr() instanceof Error);
+
+    // @ts-expect-error: The string would be converted into an Error.
+    None().okOr<string>("Err");
+    // @ts-expect-error: The string would be converted into an Error.
+    None().okOrElse<string>(() => "Err");
+    // @ts-expect-error: The string would be converted into an Error.
+    None().okOrElse(() => (Math.random() ? "Err" : 404));
+  });
+
+  await t.step("andThen - Should chain Some values.", () => {
+    const res = Some(2).andThen((n) => Some(`${n * 2}`));
+    assertEquals(res.unwrap(), "4");
+  });
+
+  await t.step("andThen None - Should short-circuit.", () => {
+    assert(
+      Some(2)
+        .andThen(() => None())
+        .isNone()
+    );
+    assert(
+      None<number>()
+        .andThen((n) => Some(n))
+        .isNone()
+    );
+  });
+
+  await t.step("and - Should return the other Option if Some.", () => {
+    assertEquals(Some(1).and(Some("Test")).unwrap(), "Test");
+    assert(None().and(Some("Test")).isNone());
+  });
+
+  await t.step("orElse - Should get contained value.", () => {
+    assertEquals(
+      Some("Some")
+        .orElse(() => Some("Test"))
+        .unwrap(),
+      "Some"
+    );
+  });
+
+  await t.step("orElse None - Should get computed Option.", () => {
+    assertEquals(
+      None<string>()
+        .orElse(() => Some("Test"))
+        .unwrap(),
+      "Test"
+    );
+  });
+
+  await t.step("xor - Should return Some if exactly one is Some.", () => {
+    assertEquals(Some(1).xor(None()).unwrap(), 1);
+    assertEquals(None<number>().xor(Some(2)).unwrap(), 2);
+    assert(Some(1).xor(Some(2)).isNone());
+    assert(None().xor(None()).isNone());
+  });
+
+  await t.step("filter - Should keep values matching the predicate.", () => {
+    assertEquals(
+      Some(4)
+        .filter((n) => n % 2 === 0)
+        .unwrap(),
+      4
+    );
+    assert(
+      Some(3)
+        .filter((n) => n % 2 === 0)
+        .isNone()
+    );
+    assert(
+      None<number>()
+        .filter(() => true)
+        .isNone()
+    );
+  });
+
+  await t.step("filter Guard - Should narrow the contained type.", () => {
+    const res: Option<string> = Some<string | number>("Test").filter(
+      (v): v is string => typeof v === "string"
+    );
+    assertEquals(res.unwrap(), "Test");
+  });
+
+  await t.step("zip - Should zip two Some values.", () => {
+    assertEquals(Some(1).zip(Some("Test")).unwrap(), [1, "Test"]);
+    assert(Some(1).zip(None()).isNone());
+  });
+
+  await t.step("zipWith - Should combine two Some values.", () => {
+    assertEquals(
+      Some(1)
+        .zipWith(Some(2), (a, b) => a + b)
+        .unwrap(),
+      3
+    );
+    assert(
+      None<number>()
+        .zipWith(Some(2), (a, b) => a + b)
+        .isNone()
+    );
+  });
+
+  await t.step("unzip - Should split a Some tuple.", () => {
+    const [left, right] = Some<[number, string]>([1, "Test"]).unzip();
+    assertEquals(left.unwrap(), 1);
+    assertEquals(right.unwrap(), "Test");
+  });
+
+  await t.step("unzip None - Should return two Nones.", () => {
+    const [left, right] = None<[number, string]>().unzip();
+    assert(left.isNone());
+    assert(right.isNone());
+  });
+
+  await t.step("inspect - Should call the function with Some values.", () => {
+    const seen: number[] = [];
+    const res = Some(1).inspect((n) => seen.push(n));
+    None<number>().inspect((n) => seen.push(n));
+    assertEquals(res.unwrap(), 1);
+    assertEquals(seen, [1]);
+  });
+
+  await t.step("mapOrElse - Should get mapped value.", () => {
+    assertEquals(
+      Some(2).mapOrElse(
+        () => 0,
+        (n) => n * 2
+      ),
+      4
+    );
+  });
+
+  await t.step("mapOrElse None - Should get computed value.", () => {
+    assertEquals(
+      None<number>().mapOrElse(
+        () => 0,
+        (n) => n * 2
+      ),
+      0
+    );
+  });
+
+  await t.step("take - Should take the value and leave None.", () => {
+    const res = Some(1);
+    const taken = res.take();
+    assertEquals(taken.unwrap(), 1);
+    assert(res.isNone());
+    assert(res.take().isNone());
+  });
+
+  await t.step("replace - Should replace the value.", () => {
+    const res = None<number>();
+    assert(res.replace(1).isNone());
+    assertEquals(res.replace(2).unwrap(), 1);
+    assertEquals(res.unwrap(), 2);
+  });
+
+  await t.step("getOrInsertWith - Should insert into None.", () => {
+    const res = None<number>();
+    assertEquals(
+      res.getOrInsertWith(() => 1),
+      1
+    );
+    assertEquals(
+      res.getOrInsertWith(() => 2),
+      1
+    );
+    assertEquals(res.unwrap(), 1);
+  });
+
+  await t.step("isSomeAnd - Should test Some values.", () => {
+    assert(Some(2).isSomeAnd((n) => n > 1));
+    assert(!Some(0).isSomeAnd((n) => n > 1));
+    assert(!None<number>().isSomeAnd(() => true));
+  });
+
+  await t.step("isNoneOr - Should test Some values.", () => {
+    assert(None<number>().isNoneOr(() => false));
+    assert(Some(2).isNoneOr((n) => n > 1));
+    assert(!Some(0).isNoneOr((n) => n > 1));
+  });
+
+  await t.step("contains - Should compare the contained value.", () => {
+    assert(Some(1).contains(1));
+    assert(!Some(1).contains(2));
+    assert(!None<number>().contains(1));
+  });
+
+  await t.step("transpose - Should swap an Option and a Result.", () => {
+    const ok = Some(Ok<number, Error>(1)).transpose();
+    assertEquals(ok.unwrap().unwrap(), 1);
+
+    const err = Some(Err<number, Error>(new Error("Test"))).transpose();
+    assertEquals(err.unwrapErr().message, "Test");
+
+    const none = None<Result<number, Error>>().transpose();
+    assert(none.unwrap().isNone());
+  });
+
+  await t.step("toNullable - Should return null for None.", () => {
+    assertEquals(Some(1).toNullable(), 1);
+    assertEquals(None().toNullable(), null);
+  });
+
+  await t.step("toUndefined - Should return undefined for None.", () => {
+    assertEquals(Some(1).toUndefined(), 1);
+    assertEquals(None().toUndefined(), undefined);
+  });
+
+  await t.step("prop - Should return None for missing properties.", () => {
+    const user = Some<{ name: string; nickname?: string | null }>({
+      name: "Ferris",
+      nickname: null,
+    });
+
+    assertEquals(user.prop("name").unwrap(), "Ferris");
+    assert(user.prop("nickname").isNone());
+    assert(None<{ name: string }>().prop("name").isNone());
+  });
 });
 
 Deno.test("Result - Supporting Function Tests", async (t) => {
@@ -204,4 +447,188 @@ Deno.test("Result - Supporting Function Tests", async (t) => {
     );
     assert(res.isNone());
   });
+
+  await t.step("gen - Should return the block's value as Some.", () => {
+    const res = Option.gen(function* () {
+      const left = yield* Some(1);
+      const right = yield* Some(2);
+      return left + right;
+    });
+    assertEquals(res.unwrap(), 3);
+  });
+
+  await t.step("gen None - Should short-circuit on the first None.", () => {
+    let reached = false;
+    const res = Option.gen(function* () {
+      const left = yield* Some(1);
+      yield* None();
+      reached = true;
+      return left;
+    });
+    assert(res.isNone());
+    assert(!reached);
+  });
+
+  await t.step("gen Spread - Should keep plain iteration intact.", () => {
+    Option.gen(function* () {
+      const res = Some("Some");
+      assertEquals([...res], ["Some"]);
+      assertEquals([...None()], []);
+      return yield* res;
+    });
+  });
+
+  await t.step("gen Yield - Should throw if a Some is yielded.", () => {
+    assertThrows(
+      () =>
+        // @ts-expect-error: A plain yield would skip the block's return value.
+        Option.gen(function* () {
+          yield Some(1);
+          return 2;
+        }),
+      TypeError
+    );
+  });
+
+  await t.step(
+    "genAsync - Should return the block's value as Some.",
+    async () => {
+      const res = await Option.genAsync(async function* () {
+        const left = yield* await Option.fromAsync(() => Promise.resolve(1));
+        const right = yield* Some(2);
+        return left + right;
+      });
+      assertEquals(res.unwrap(), 3);
+    }
+  );
+
+  await t.step(
+    "genAsync None - Should short-circuit on the first None.",
+    async () => {
+      const res = await Option.genAsync(async function* () {
+        yield* await Option.fromAsync(() => Promise.resolve(null));
+        return 1;
+      });
+      assert(res.isNone());
+    }
+  );
+
+  await t.step("isSome - Should narrow to SomeOption.", () => {
+    const res: Option<number> = Some(1);
+    if (res.isSome()) {
+      const value: number = res.value;
+      assertEquals(value, 1);
+      return;
+    }
+    fail("Option was not Some.");
+  });
+
+  await t.step("isNone - Should narrow to NoneOption.", () => {
+    const res: Option<number> = None();
+    if (res.isNone()) {
+      assertEquals(res.value, undefined);
+      return;
+    }
+    fail("Option was not None.");
+  });
+
+  await t.step("instanceof - Should narrow Some and None.", () => {
+    const options: Option<string>[] = [Some("Some"), None()];
+    const values = options.map((opt) => {
+      if (opt instanceof Some) return opt.value;
+      if (opt instanceof None) return "None";
+      return "Unreachable";
+    });
+    assertEquals(values, ["Some", "None"]);
+  });
+
+  await t.step("instanceof Unknown - Should narrow unknown values.", () => {
+    const res: unknown = Some(1);
+    assert(res instanceof Some);
+    assertEquals(res.value, 1);
+    assert(!({ value: 1 } instanceof Some));
+  });
+
+  await t.step("match - Should call the Some arm.", () => {
+    const res = Some(2).match({ Some: (n) => n * 2, None: () => 0 });
+    assertEquals(res, 4);
+  });
+
+  await t.step("match None - Should call the None arm.", () => {
+    const res = None<number>().match({ Some: (n) => n * 2, None: () => 0 });
+    assertEquals(res, 0);
+  });
+
+  await t.step("match Exhaustive - Should require every arm.", () => {
+    // @ts-expect-error: The None arm is missing.
+    const arms: Parameters<Option<number>["match"]>[0] = { Some: () => 1 };
+    assert(arms);
+  });
+
+  await t.step("Option.all - Should combine a tuple of Somes.", () => {
+    const res: Option<[number, string]> = Option.all([Some(1), Some("Test")]);
+    assertEquals(res.unwrap(), [1, "Test"]);
+  });
+
+  await t.step("Option.all None - Should return None.", () => {
+    assert(Option.all([Some(1), None()]).isNone());
+  });
+
+  await t.step("Option.collect - Should collect any iterable.", () => {
+    assertEquals(Option.collect(new Set([Some(1), Some(2)])).unwrap(), [1, 2]);
+  });
+
+  await t.step("Option.collect None - Should stop at the first None.", () => {
+    let pulled = 0;
+    function* options() {
+      pulled++;
+      yield None<number>();
+      pulled++;
+      yield Some(1);
+    }
+    assert(Option.collect(options()).isNone());
+    assertEquals(pulled, 1);
+  });
+
+  await t.step("Option.struct - Should combine a record of Somes.", () => {
+    const res: Option<{ x: number; y: number }> = Option.struct({
+      x: Some(1),
+      y: Some(2),
+    });
+    assertEquals(res.unwrap(), { x: 1, y: 2 });
+    assert(Option.struct({ x: Some(1), y: None() }).isNone());
+  });
+
+  await t.step(
+    "Option.fromNullable - Should return None for nullish values.",
+    () => {
+      assertEquals(Option.fromNullable(0).unwrap(), 0);
+      assertEquals(Option.fromNullable("").unwrap(), "");
+      assert(Option.fromNullable(null).isNone());
+      assert(Option.fromNullable(undefined).isNone());
+
+      const port: Option<string> = Option.fromNullable(
+        new Map<string, string>().get("PORT")
+      );
+      assert(port.isNone());
+    }
+  );
+
+  await t.step("Option.get - Should follow a path of keys.", () => {
+    interface Config {
+      servers: Array<{ host: string; port?: number }>;
+      owner?: { name: string } | null;
+    }
+    const config: Config = { servers: [{ host: "localhost" }], owner: null };
+
+    const host: Option<string> = Option.get(config, "servers", 0, "host");
+    assertEquals(host.unwrap(), "localhost");
+    assert(Option.get(config, "servers", 0, "port").isNone());
+    assert(Option.get(config, "servers", 1, "host").isNone());
+    assert(Option.get(config, "owner", "name").isNone());
+    assert(Option.get(undefined as Config | undefined, "servers").isNone());
+
+    // @ts-expect-error Keys are checked against the type of the object.
+    Option.get(config, "severs");
+  });
 });
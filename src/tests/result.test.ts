@@ -1,7 +1,9 @@
 import { Result, Ok, Err } from "../result.ts";
+import { Option, Some, None } from "../option.ts";
 import {
   assertEquals,
   assert,
+  assertThrows,
   fail,
 } from "https://deno.land/std@0.159.0/testing/asserts.ts";
 
@@ -63,10 +65,12 @@ Deno.test("Result", async (t) => {
   await t.step(
     "expect Error - Should throw an Error with a message if Result contains Error.",
     () => {
+      const err = new Error("Test");
       try {
-        new Result(new Error("Test")).expect("Alternative");
+        new Result(err).expect("Alternative");
       } catch (e) {
-        assertEquals(e, new Error("Alternative"));
+        assertEquals((e as Error).message, "Alternative");
+        assert((e as Error).cause === err);
         return;
       }
       fail("Method did not throw.");
@@ -74,8 +78,10 @@ Deno.test("Result", async (t) => {
   );
 
   await t.step("expectErr - Should get contained Error value.", () => {
-    const res = new Result(new Error("Test")).expectErr("Alternative");
-    assertEquals(res, new Error("Test"));
+    const res: TypeError = Err<number, TypeError>(
+      new TypeError("Test")
+    ).expectErr("Alternative");
+    assertEquals(res, new TypeError("Test"));
   });
 
   await t.step(
@@ -84,7 +90,8 @@ Deno.test("Result", async (t) => {
       try {
         new Result("Ok").expectErr("Test");
       } catch (e) {
-        assertEquals(e, new Error("Test"));
+        assertEquals((e as Error).message, "Test");
+        assertEquals((e as Error).cause, "Ok");
         return;
       }
       fail("Method did not throw.");
@@ -106,15 +113,18 @@ Deno.test("Result", async (t) => {
     }
   });
 
-  await t.step("unwrap Error (no stack) - Should throw an Error.", () => {
+  await t.step("unwrap Error - Should keep the Error as its cause.", () => {
     const err = new Error("Test");
     delete err.stack;
     try {
       new Result(err).unwrap();
     } catch (e) {
       assertEquals((e as Error).message, "Unwrap called on Error");
-      assertEquals((e as Error).stack, "Unwrap called on Error: Test");
+      assert((e as Error).cause === err);
+      assertEquals(err.stack, undefined);
+      return;
     }
+    fail("Method did not throw.");
   });
 
   await t.step("unrwapErr - Should get contained Error value.", () => {
@@ -234,10 +244,313 @@ Deno.test("Result", async (t) => {
     assert(res.isNone());
   });
 
-  await t.step('flatten - Should converts from Result<Result<T, E>, E> to Result<T, E>', () => {
-    const res = new Result<Result<string, Error>, Error>(new Result<string, Error>('test'))
-    assert(res.flatten(), new Result('test'))
-  })
+  await t.step(
+    "flatten - Should converts from Result<Result<T, E>, E> to Result<T, E>",
+    () => {
+      const res = new Result<Result<string, Error>, Error>(
+        new Result<string, Error>("test")
+      );
+      assert(res.flatten(), new Result("test"));
+    }
+  );
+
+  await t.step("flatten Type - Should combine the nested Err types.", () => {
+    const res: Result<string, TypeError | RangeError> = Ok<
+      Result<string, RangeError>,
+      TypeError
+    >(Ok("test")).flatten();
+    assertEquals(res.unwrap(), "test");
+  });
+
+  await t.step("err - Should convert Err to Some.", () => {
+    assertEquals(Err("Test").err().unwrap().message, "Test");
+    assert(Ok("Ok").err().isNone());
+  });
+
+  await t.step("andThen - Should chain Ok values.", () => {
+    const res = Ok(2).andThen((n) => Ok(`${n * 2}`));
+    assertEquals(res.unwrap(), "4");
+  });
+
+  await t.step("andThen Error - Should short-circuit on Err.", () => {
+    let called = false;
+    const res = Err<number>("Test").andThen((n) => {
+      called = true;
+      return Ok(n);
+    });
+    assertEquals(res.unwrapErr().message, "Test");
+    assert(!called);
+  });
+
+  await t.step("andThen - Should combine the error types.", () => {
+    class ReadError extends Error {
+      readonly read = true;
+    }
+    class ParseError extends Error {
+      readonly parse = true;
+    }
+    const read = (): Result<string, ReadError> => Ok("80");
+    const parse = (input: string): Result<number, ParseError> =>
+      Number.isNaN(Number(input))
+        ? Err(new ParseError(input))
+        : Ok(Number(input));
+
+    const res: Result<number, ReadError | ParseError> = read().andThen(parse);
+    assertEquals(res.unwrap(), 80);
+    assert(
+      Err<string, ReadError>(new ReadError("Test")).andThen(parse).isErr()
+    );
+
+    // @ts-expect-error: The ParseError is part of the error type.
+    const narrow: Result<number, ReadError> = read().andThen(parse);
+    assert(narrow);
+  });
+
+  await t.step("and - Should return the other Result if Ok.", () => {
+    assertEquals(Ok(1).and(Ok("Test")).unwrap(), "Test");
+    assertEquals(Err("Test").and(Ok(1)).unwrapErr().message, "Test");
+  });
+
+  await t.step("orElse - Should recover from Err.", () => {
+    const res = Err<string>("Test").orElse((e) => Ok(e.message));
+    assertEquals(res.unwrap(), "Test");
+  });
+
+  await t.step("orElse Ok - Should leave Ok untouched.", () => {
+    const res = Ok("Ok").orElse(() => Ok("Test"));
+    assertEquals(res.unwrap(), "Ok");
+  });
+
+  await t.step("mapOrElse - Should get mapped value.", () => {
+    const res = Ok(2).mapOrElse(
+      () => 0,
+      (n) => n * 2
+    );
+    assertEquals(res, 4);
+  });
+
+  await t.step("mapOrElse Error - Should get computed value.", () => {
+    const res = Err<number>("Test").mapOrElse(
+      (e) => e.message.length,
+      (n) => n * 2
+    );
+    assertEquals(res, 4);
+  });
+
+  await t.step("inspect - Should call the function with Ok values.", () => {
+    const seen: number[] = [];
+    Ok(1).inspect((n) => seen.push(n));
+    Err<number>("Test").inspect((n) => seen.push(n));
+    assertEquals(seen, [1]);
+  });
+
+  await t.step("inspectErr - Should call the function with Errors.", () => {
+    const seen: string[] = [];
+    Ok<number>(1).inspectErr((e) => seen.push(e.message));
+    const res = Err("Test").inspectErr((e) => seen.push(e.message));
+    assertEquals(seen, ["Test"]);
+    assert(res.isErr());
+  });
+
+  await t.step("isOkAnd - Should test Ok values.", () => {
+    assert(Ok(2).isOkAnd((n) => n > 1));
+    assert(!Ok(0).isOkAnd((n) => n > 1));
+    assert(!Err<number>("Test").isOkAnd(() => true));
+  });
+
+  await t.step("isErrAnd - Should test Errors.", () => {
+    assert(Err("Test").isErrAnd((e) => e.message === "Test"));
+    assert(!Err("Test").isErrAnd((e) => e.message === "Other"));
+    assert(!Ok(1).isErrAnd(() => true));
+  });
+
+  await t.step("transpose - Should swap a Result and an Option.", () => {
+    assertEquals(Ok(Some(1)).transpose().unwrap().unwrap(), 1);
+    assert(Ok(None()).transpose().isNone());
+
+    const err = Err<Option<number>>("Test").transpose();
+    assertEquals(err.unwrap().unwrapErr().message, "Test");
+  });
+
+  await t.step("unwrapOrDefault - Should get contained value.", () => {
+    assertEquals(Ok(1).unwrapOrDefault(Number), 1);
+  });
+
+  await t.step("unwrapOrDefault Error - Should get the default value.", () => {
+    assertEquals(Err<number>("Test").unwrapOrDefault(Number), 0);
+    assertEquals(Err<string>("Test").unwrapOrDefault(String), "");
+    assertEquals(Err<string[]>("Test").unwrapOrDefault(Array), []);
+  });
+
+  await t.step("iter - Should iterate over the Ok value.", () => {
+    assertEquals([...Ok(1).iter()], [1]);
+    assertEquals([...Err("Test").iter()], []);
+  });
+
+  await t.step("context - Should wrap an Err with its cause.", () => {
+    const err = new TypeError("Test");
+    const res = Err<number, TypeError>(err).context("loading config");
+    const wrapped = res.unwrapErr();
+
+    assertEquals(wrapped.message, "loading config");
+    assert(wrapped.cause === err);
+  });
+
+  await t.step("context Ok - Should leave Ok values untouched.", () => {
+    assertEquals(Ok(1).context("loading config").unwrap(), 1);
+  });
+
+  await t.step("withContext - Should compute the message lazily.", () => {
+    let calls = 0;
+    const describe = (e: Error) => {
+      calls++;
+      return `while ${e.message}`;
+    };
+
+    Ok(1).withContext(describe);
+    const res = Err<number>("reading").withContext(describe);
+
+    assertEquals(calls, 1);
+    assertEquals(res.unwrapErr().message, "while reading");
+  });
+
+  await t.step("Result.report - Should describe a single Error.", () => {
+    assertEquals(Result.report(new TypeError("Test")), "TypeError: Test");
+  });
+
+  await t.step("Result.report - Should list a single cause.", () => {
+    const res = Err<number>("file not found").context("loading config");
+    assertEquals(
+      Result.report(res.unwrapErr()),
+      "Error: loading config\n\nCaused by:\n    Error: file not found"
+    );
+  });
+
+  await t.step("Result.report - Should number every cause.", () => {
+    const res = new Result<number, string>("EACCES", "Err")
+      .context("reading file")
+      .context("loading config");
+    assertEquals(
+      Result.report(res.unwrapErr()),
+      [
+        "Error: loading config",
+        "",
+        "Caused by:",
+        "    0: Error: reading file",
+        "    1: EACCES",
+      ].join("\n")
+    );
+  });
+
+  await t.step("Result.report - Should stop at cyclic causes.", () => {
+    const err = new Error("Test");
+    err.cause = err;
+    assertEquals(Result.report(err), "Error: Test");
+  });
+
+  await t.step("Result.report - Should add colours when asked.", () => {
+    const report = Result.report(new Error("Test", { cause: "Cause" }), {
+      color: true,
+    });
+    assert(report.startsWith("\x1b[1;31mError: Test\x1b[0m"));
+    assert(report.includes("\x1b[33mCaused by:\x1b[0m"));
+  });
+
+  await t.step(
+    "Result.wrap - Should keep the parameters of a function.",
+    () => {
+      const parse = Result.wrap((input: string, radix: number) => {
+        const value = parseInt(input, radix);
+        if (Number.isNaN(value)) throw new TypeError("Not a number");
+        return value;
+      });
+
+      const ok: Result<number, Error> = parse("ff", 16);
+      assertEquals(ok.unwrap(), 255);
+      assert(parse("x", 10).unwrapErr() instanceof TypeError);
+    }
+  );
+
+  await t.step("Result.wrap - Should map thrown values.", () => {
+    const parse = Result.wrap(
+      (input: string) => JSON.parse(input) as unknown,
+      (e) => (e as Error).name
+    );
+    assertEquals(parse("{").unwrapErr(), "SyntaxError");
+  });
+
+  await t.step("Result.wrap - Should keep the receiver.", () => {
+    const counter = {
+      count: 1,
+      next: Result.wrap(function (this: { count: number }) {
+        return ++this.count;
+      }),
+    };
+    assertEquals(counter.next().unwrap(), 2);
+  });
+
+  await t.step("Result.wrapAsync - Should wrap rejections.", async () => {
+    const load = Result.wrapAsync((id: number) =>
+      id > 0 ? Promise.resolve(`User ${id}`) : Promise.reject(new Error("Test"))
+    );
+
+    assertEquals((await load(1)).unwrap(), "User 1");
+    assertEquals((await load(0)).unwrapErr().message, "Test");
+  });
+
+  await t.step("Result.fromPromise - Should convert a promise.", async () => {
+    assertEquals((await Result.fromPromise(Promise.resolve(1))).unwrap(), 1);
+
+    const res = await Result.fromPromise(
+      Promise.reject(new Error("Test")),
+      (e) => `Failed: ${(e as Error).message}`
+    );
+    assertEquals(res.unwrapErr(), "Failed: Test");
+  });
+
+  await t.step(
+    "Result.fromCallback - Should adapt Node-style callbacks.",
+    async () => {
+      const read = (
+        path: string,
+        done: (err: Error | null, value?: string) => void
+      ) => {
+        if (path) setTimeout(() => done(null, `Contents of ${path}`));
+        else setTimeout(() => done(new Error("ENOENT")));
+      };
+
+      const ok = await Result.fromCallback<string>((done) =>
+        read("a.txt", done)
+      );
+      const err = await Result.fromCallback<string>((done) => read("", done));
+
+      assertEquals(ok.unwrap(), "Contents of a.txt");
+      assertEquals(err.unwrapErr().message, "ENOENT");
+    }
+  );
+
+  await t.step(
+    "Result.fromCallback - Should catch synchronous throws.",
+    async () => {
+      const res = await Result.fromCallback<string>(() => {
+        throw new Error("Test");
+      });
+      assertEquals(res.unwrapErr().message, "Test");
+    }
+  );
+
+  await t.step("toPromise - Should resolve Ok and reject Err.", async () => {
+    assertEquals(await Ok(1).toPromise(), 1);
+
+    const err = new Error("Test");
+    try {
+      await Err(err).toPromise();
+    } catch (e) {
+      assert(e === err);
+      return;
+    }
+    fail("Promise did not reject.");
+  });
 });
 
 Deno.test("Result - Supporting Function Tests", async (t) => {
@@ -312,4 +625,304 @@ Deno.test("Result - Supporting Function Tests", async (t) => {
       assertEquals(res.err.length, 2);
     }
   );
+
+  await t.step("gen - Should return the block's value as Ok.", () => {
+    const res = Result.gen(function* () {
+      const left = yield* Ok(1);
+      const right = yield* Ok(2);
+      return left + right;
+    });
+    assertEquals(res.unwrap(), 3);
+  });
+
+  await t.step("gen Error - Should short-circuit on the first Err.", () => {
+    let reached = false;
+    const res = Result.gen(function* () {
+      const left = yield* Ok<number, TestError>(1);
+      yield* Err<number, Error>("First");
+      reached = true;
+      yield* Err<number, TypeError>(new TypeError("Second"));
+      return left;
+    });
+    const err: Error | TestError | TypeError = res.unwrapErr();
+    assertEquals(err.message, "First");
+    assert(!reached);
+  });
+
+  await t.step("gen finally - Should run finally blocks on Err.", () => {
+    let cleaned = false;
+    Result.gen(function* () {
+      try {
+        yield* Err("Test");
+      } finally {
+        cleaned = true;
+      }
+    });
+    assert(cleaned);
+  });
+
+  await t.step("gen Spread - Should keep plain iteration intact.", () => {
+    Result.gen(function* () {
+      const res = Ok("Ok");
+      assertEquals([...res], ["Ok"]);
+      assertEquals([...Err("Test")], []);
+      return yield* res;
+    });
+  });
+
+  await t.step("gen Yield - Should throw if a non-Result is yielded.", () => {
+    try {
+      // @ts-expect-error: Only values delegated to with yield* may be yielded.
+      Result.gen(function* () {
+        yield "Test";
+      });
+    } catch (e) {
+      assert(e instanceof TypeError);
+      return;
+    }
+    fail("Method did not throw.");
+  });
+
+  await t.step("gen Yield - Should throw if an Ok is yielded.", () => {
+    assertThrows(
+      () =>
+        // @ts-expect-error: A plain yield would skip the block's return value.
+        Result.gen(function* () {
+          yield Ok(1);
+          return 2;
+        }),
+      TypeError
+    );
+  });
+
+  await t.step("gen Yield - Should short-circuit on a yielded Err.", () => {
+    const res = Result.gen(function* () {
+      yield* Ok(1);
+      yield* Err(new RangeError("Stop"));
+      return 2;
+    });
+    assert(res.unwrapErr() instanceof RangeError);
+  });
+
+  await t.step(
+    "genAsync - Should return the block's value as Ok.",
+    async () => {
+      const res = await Result.genAsync(async function* () {
+        const left = yield* await Promise.resolve(Ok(1));
+        const right = yield* Ok(2);
+        return left + right;
+      });
+      assertEquals(res.unwrap(), 3);
+    }
+  );
+
+  await t.step(
+    "genAsync Error - Should short-circuit on the first Err.",
+    async () => {
+      let reached = false;
+      const res = await Result.genAsync(async function* () {
+        yield* await Result.fromAsync(() => Promise.reject(new Error("Test")));
+        reached = true;
+      });
+      assertEquals(res.unwrapErr().message, "Test");
+      assert(!reached);
+    }
+  );
+
+  await t.step("Ok Error - Should hold an Error as the Ok value.", () => {
+    const res = Ok(new Error("Test"));
+    assert(res.isOk());
+    assert(res instanceof Ok);
+    assert(!(res instanceof Err));
+    assertEquals(res.unwrap().message, "Test");
+  });
+
+  await t.step("Err Value - Should hold values other than Errors.", () => {
+    enum Code {
+      NotFound = 404,
+    }
+    const code = Err<string, Code>(Code.NotFound);
+    assert(code.isErr());
+    assert(code instanceof Err);
+    assertEquals(code.unwrapErr(), Code.NotFound);
+
+    const object = Err({ field: "name", reason: "missing" });
+    assert(object.isErr());
+    assertEquals(object.unwrapErr().field, "name");
+  });
+
+  await t.step("Err String - Should not be typed as holding a string.", () => {
+    const error: Result<number, Error> = Err<number, Error>("Test");
+    assert(error.unwrapErr() instanceof Error);
+
+    const unknown: Result<number, unknown> = Err<number, unknown>("Test");
+    assert(unknown.unwrapErr() instanceof Error);
+
+    // @ts-expect-error: The string would be converted into an Error.
+    Err<number, string>("Test");
+    // @ts-expect-error: The string would be converted into an Error.
+    Err<number, "NotFound" | Error>("NotFound");
+    // @ts-expect-error: A plain Error has no code.
+    Err<number, { code: number } & Error>("Test");
+
+    const value: string | number = "Test" as string | number;
+    // @ts-expect-error: The string would be converted into an Error.
+    Err(value);
+  });
+
+  await t.step("Err Variant - Should hold a string when tagged Err.", () => {
+    const res = new Result<number, string>("Test", "Err");
+    assert(res.isErr());
+    assertEquals(res.unwrapErr(), "Test");
+    assertEquals(res.unwrapOr(1), 1);
+  });
+
+  await t.step(
+    "unwrap Value - Should throw an Error for non-Error Errs.",
+    () => {
+      try {
+        Err({ code: 1 }).unwrap();
+      } catch (e) {
+        assertEquals((e as Error).message, "Unwrap called on Err");
+        return;
+      }
+      fail("Method did not throw.");
+    }
+  );
+
+  await t.step("from Value - Should treat any thrown value as Err.", () => {
+    const res = Result.from(() => {
+      throw "Test";
+    });
+    assert(res.isErr());
+    assertEquals(res.peek(), "Test");
+  });
+
+  await t.step("mapErr Value - Should keep the Err variant.", () => {
+    const res = Err("Test").mapErr((e) => e.message);
+    assert(res.isErr());
+    assertEquals(res.unwrapErr(), "Test");
+  });
+
+  await t.step("isOk - Should narrow to OkResult.", () => {
+    const res: Result<number, Error> = Ok(1);
+    if (res.isOk()) {
+      const value: number = res.value;
+      assertEquals(value, 1);
+      return;
+    }
+    fail("Result was not Ok.");
+  });
+
+  await t.step("isErr - Should narrow to ErrResult.", () => {
+    const res: Result<number, TypeError> = Err(new TypeError("Test"));
+    if (res.isErr()) {
+      const error: TypeError = res.error;
+      assertEquals(error.message, "Test");
+      return;
+    }
+    fail("Result was not Err.");
+  });
+
+  await t.step("instanceof - Should narrow Ok and Err.", () => {
+    const results: Result<string, Error>[] = [Ok("Ok"), Err("Test")];
+    const messages = results.map((res) => {
+      if (res instanceof Ok) return res.value;
+      if (res instanceof Err) return res.error.message;
+      return "Unreachable";
+    });
+    assertEquals(messages, ["Ok", "Test"]);
+  });
+
+  await t.step("instanceof Unknown - Should narrow unknown values.", () => {
+    const res: unknown = Ok(1);
+    assert(res instanceof Ok);
+    assertEquals(res.value, 1);
+    assert(!({ value: 1 } instanceof Ok));
+  });
+
+  await t.step("match - Should call the Ok arm.", () => {
+    const res = Ok(2).match({ Ok: (n) => n * 2, Err: () => 0 });
+    assertEquals(res, 4);
+  });
+
+  await t.step("match Error - Should call the Err arm.", () => {
+    const res = Err<number>("Test").match({
+      Ok: (n) => `${n}`,
+      Err: (e) => e.message,
+    });
+    assertEquals(res, "Test");
+  });
+
+  await t.step("match Exhaustive - Should require every arm.", () => {
+    // @ts-expect-error: The Err arm is missing.
+    const arms: Parameters<Result<number, Error>["match"]>[0] = { Ok: () => 1 };
+    assert(arms);
+  });
+
+  await t.step("Result.all - Should combine a tuple of Oks.", () => {
+    const res: Result<[number, string], Error> = Result.all([
+      Ok<number, Error>(1),
+      Ok<string, TypeError>("Test"),
+    ]);
+    assertEquals(res.unwrap(), [1, "Test"]);
+  });
+
+  await t.step("Result.all Error - Should return the first Err.", () => {
+    const res = Result.all([Ok(1), Err("First"), Err("Second")]);
+    assertEquals(res.unwrapErr().message, "First");
+  });
+
+  await t.step("Result.collect - Should collect any iterable.", () => {
+    function* results() {
+      yield Ok(1);
+      yield Ok(2);
+    }
+    assertEquals(Result.collect(results()).unwrap(), [1, 2]);
+    assertEquals(Result.collect(new Set([Ok(3)])).unwrap(), [3]);
+  });
+
+  await t.step("Result.collect Error - Should stop at the first Err.", () => {
+    let pulled = 0;
+    function* results() {
+      pulled++;
+      yield Err<number>("First");
+      pulled++;
+      yield Ok(1);
+    }
+    assertEquals(Result.collect(results()).unwrapErr().message, "First");
+    assertEquals(pulled, 1);
+  });
+
+  await t.step("Result.any - Should return the first Ok.", () => {
+    const res = Result.any([Err<number>("First"), Ok(1), Ok(2)]);
+    assertEquals(res.unwrap(), 1);
+  });
+
+  await t.step("Result.any Error - Should return every Err.", () => {
+    const res = Result.any([Err<number>("First"), Err<number>("Second")]);
+    assertEquals(
+      res.unwrapErr().map((e) => e.message),
+      ["First", "Second"]
+    );
+  });
+
+  await t.step("Result.struct - Should combine a record of Oks.", () => {
+    const res: Result<{ id: number; name: string }, Error> = Result.struct({
+      id: Ok<number, Error>(1),
+      name: Ok<string, Error>("Test"),
+    });
+    assertEquals(res.unwrap(), { id: 1, name: "Test" });
+  });
+
+  await t.step("Result.struct Error - Should return the first Err.", () => {
+    const res = Result.struct({ id: Ok<number, Error>(1), name: Err("Test") });
+    assertEquals(res.unwrapErr().message, "Test");
+  });
+
+  await t.step("Result.partition - Should accept any iterable.", () => {
+    const res = Result.partition(new Set([Ok(1), Err("Test")]));
+    assertEquals(res.ok, [1]);
+    assertEquals(res.err.length, 1);
+  });
 });
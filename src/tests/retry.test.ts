@@ -0,0 +1,143 @@
+import { Result, Ok, Err } from "../result.ts";
+import { Clock, RetryError } from "../retry.ts";
+import {
+  assertEquals,
+  assert,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+function fakeClock(): Clock & { sleeps: Array<number> } {
+  const sleeps: Array<number> = [];
+  return {
+    sleeps,
+    sleep(ms) {
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+  };
+}
+
+function failing(failures: number) {
+  return (attempt: number): Promise<Result<string, Error>> =>
+    Promise.resolve(
+      attempt > failures ? Ok(`Attempt ${attempt}`) : Err(`Failure ${attempt}`)
+    );
+}
+
+Deno.test("Result.retry", async (t) => {
+  await t.step("retry - Should return the first Ok.", async () => {
+    const clock = fakeClock();
+    const res = await Result.retry(failing(2), { clock });
+
+    assertEquals(res.unwrap(), "Attempt 3");
+    assertEquals(clock.sleeps, [100, 200]);
+  });
+
+  await t.step(
+    "retry Error - Should list the Err of every attempt.",
+    async () => {
+      const clock = fakeClock();
+      const res = await Result.retry(failing(5), { attempts: 3, clock });
+      const error = res.unwrapErr();
+
+      assert(error instanceof RetryError);
+      assert(error instanceof AggregateError);
+      assertEquals(error.message, "Failed after 3 attempts");
+      assertEquals(
+        error.errors.map((e) => e.message),
+        ["Failure 1", "Failure 2", "Failure 3"]
+      );
+      assertEquals(error.last.message, "Failure 3");
+      assertEquals(clock.sleeps.length, 2);
+    }
+  );
+
+  await t.step("retry - Should accept synchronous Results.", async () => {
+    const res = await Result.retry((attempt) => Ok(attempt), {
+      clock: fakeClock(),
+    });
+    assertEquals(res.unwrap(), 1);
+  });
+
+  await t.step("backoff - Should grow linearly.", async () => {
+    const clock = fakeClock();
+    await Result.retry(failing(5), {
+      attempts: 4,
+      backoff: "linear",
+      delay: 50,
+      clock,
+    });
+    assertEquals(clock.sleeps, [50, 100, 150]);
+  });
+
+  await t.step("backoff - Should stay constant.", async () => {
+    const clock = fakeClock();
+    await Result.retry(failing(5), { backoff: "constant", delay: 10, clock });
+    assertEquals(clock.sleeps, [10, 10]);
+  });
+
+  await t.step("backoff - Should accept a custom strategy.", async () => {
+    const clock = fakeClock();
+    await Result.retry(failing(5), {
+      attempts: 4,
+      backoff: (attempt) => attempt * attempt,
+      clock,
+    });
+    assertEquals(clock.sleeps, [1, 4, 9]);
+  });
+
+  await t.step("maxDelay - Should cap the delay.", async () => {
+    const clock = fakeClock();
+    await Result.retry(failing(5), { attempts: 5, maxDelay: 300, clock });
+    assertEquals(clock.sleeps, [100, 200, 300, 300]);
+  });
+
+  await t.step("jitter - Should shorten delays randomly.", async () => {
+    const full = fakeClock();
+    const half = fakeClock();
+
+    await Result.retry(failing(5), {
+      jitter: true,
+      random: () => 0.25,
+      clock: full,
+    });
+    await Result.retry(failing(5), {
+      jitter: 0.5,
+      random: () => 1,
+      clock: half,
+    });
+
+    assertEquals(full.sleeps, [75, 150]);
+    assertEquals(half.sleeps, [50, 100]);
+  });
+
+  await t.step(
+    "retryIf - Should stop at errors which aren't retryable.",
+    async () => {
+      const clock = fakeClock();
+      const res = await Result.retry(
+        (attempt) =>
+          Promise.resolve(
+            new Result<string, number>(attempt === 1 ? 503 : 404, "Err")
+          ),
+        { attempts: 5, retryIf: (status) => status >= 500, clock }
+      );
+
+      assertEquals(res.unwrapErr().errors, [503, 404]);
+      assertEquals(clock.sleeps.length, 1);
+    }
+  );
+
+  await t.step("onRetry - Should be called before each wait.", async () => {
+    const calls: Array<[string, number, number]> = [];
+    await Result.retry(failing(5), {
+      clock: fakeClock(),
+      onRetry: (error, attempt, delay) =>
+        calls.push([error.message, attempt, delay]),
+    });
+
+    assertEquals(calls, [
+      ["Failure 1", 1, 100],
+      ["Failure 2", 2, 200],
+    ]);
+  });
+});
@@ -0,0 +1,260 @@
+import { Option, Some, None } from "../option.ts";
+import { Result, Ok, Err } from "../result.ts";
+import { AsyncResult } from "../async_result.ts";
+import { ErrorRegistry } from "../json.ts";
+import { connect, expose, Remote } from "../rpc.ts";
+import { AbortError } from "../cancel.ts";
+import {
+  assertEquals,
+  assert,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+class QuotaError extends Error {
+  override name = "QuotaError";
+
+  constructor(readonly limit: number, options?: ErrorOptions) {
+    super(`Over the limit of ${limit}`, options);
+  }
+}
+
+interface Snapshot {
+  date: Date;
+  map: Map<number, Option<string>>;
+  set: Set<Result<number, Error>>;
+  bytes: Uint8Array;
+  big: bigint;
+  cyclic: Record<string, unknown>;
+}
+
+const procedures = {
+  divide(left: number, right: number): Result<number, Error> {
+    if (right === 0) return Err("Divided by zero");
+
+    return Ok(left / right);
+  },
+  find(id: number): Option<string> {
+    return id === 1 ? Some("Ferris") : None();
+  },
+  upload(size: number): AsyncResult<number, QuotaError> {
+    return new AsyncResult(
+      Promise.resolve(
+        size > 10
+          ? Err<number, QuotaError>(
+              new QuotaError(10, { cause: new RangeError("Too big") })
+            )
+          : Ok<number, QuotaError>(size)
+      )
+    );
+  },
+  unwrap(option: Option<number>): number {
+    return option.unwrap();
+  },
+  echo(value: unknown): unknown {
+    return value;
+  },
+  snapshot(value: Snapshot): Snapshot {
+    return value;
+  },
+  callback(): () => number {
+    return () => 1;
+  },
+  hang(): Promise<Result<number, Error>> {
+    return new Promise(() => {});
+  },
+};
+
+async function withChannel(
+  fn: (remote: Remote<typeof procedures>) => Promise<void>,
+  signal?: AbortSignal
+) {
+  const channel = new MessageChannel();
+  const registry = new ErrorRegistry().register(QuotaError);
+  expose(channel.port1, procedures, { registry });
+
+  try {
+    await fn(connect<typeof procedures>(channel.port2, { registry, signal }));
+  } finally {
+    channel.port1.close();
+    channel.port2.close();
+  }
+}
+
+Deno.test("RPC", async (t) => {
+  await t.step("connect - Should return Ok values.", async () => {
+    await withChannel(async (remote) => {
+      const res = await remote.divide(4, 2);
+      assert(res instanceof Result);
+      assertEquals(res.unwrap(), 2);
+    });
+  });
+
+  await t.step("connect - Should rebuild Errors.", async () => {
+    await withChannel(async (remote) => {
+      const res = await remote.divide(4, 0);
+      assert(res.unwrapErr() instanceof Error);
+      assertEquals(res.unwrapErr().message, "Divided by zero");
+    });
+  });
+
+  await t.step("connect - Should rebuild Options.", async () => {
+    await withChannel(async (remote) => {
+      const found = (await remote.find(1)).unwrap();
+      const missing = (await remote.find(2)).unwrap();
+
+      assert(found instanceof Option);
+      assertEquals(found.unwrap(), "Ferris");
+      assert(missing.isNone());
+    });
+  });
+
+  await t.step(
+    "connect - Should rebuild registered Errors with their cause.",
+    async () => {
+      await withChannel(async (remote) => {
+        const error = (await remote.upload(20)).unwrapErr();
+
+        assert(error instanceof QuotaError);
+        assertEquals(error.limit, 10);
+        assert(error.cause instanceof RangeError);
+        assertEquals(error.cause.message, "Too big");
+      });
+    }
+  );
+
+  await t.step("connect - Should send Options as arguments.", async () => {
+    await withChannel(async (remote) => {
+      assertEquals(await remote.unwrap(Some(1)).unwrapOr(0), 1);
+    });
+  });
+
+  await t.step("connect Error - Should return thrown Errors.", async () => {
+    await withChannel(async (remote) => {
+      const res = await remote.unwrap(None());
+      assertEquals(res.unwrapErr().message, "Unwrap called on None");
+    });
+  });
+
+  await t.step(
+    "connect Error - Should reject unknown procedures.",
+    async () => {
+      await withChannel(async (remote) => {
+        const missing = remote as unknown as Record<
+          string,
+          () => AsyncResult<unknown, Error>
+        >;
+        const error = (await missing.missing()).unwrapErr();
+
+        assert(error instanceof TypeError);
+      });
+    }
+  );
+
+  await t.step(
+    "connect - Should keep values structured clone supports.",
+    async () => {
+      await withChannel(async (remote) => {
+        const cyclic: Record<string, unknown> = { id: 1 };
+        cyclic.self = cyclic;
+        const value: Snapshot = {
+          date: new Date(0),
+          map: new Map([[1, Some("a")]]),
+          set: new Set([Ok(1)]),
+          bytes: new Uint8Array([1, 2]),
+          big: 1n,
+          cyclic,
+        };
+
+        const echoed = (await remote.snapshot(value)).unwrap();
+        assert(echoed.date instanceof Date);
+        assertEquals(echoed.date.getTime(), 0);
+        assertEquals(echoed.map.get(1)?.unwrap(), "a");
+        assertEquals([...echoed.set][0].unwrap(), 1);
+        assert(echoed.bytes instanceof Uint8Array);
+        assertEquals(echoed.big, 1n);
+        assert(echoed.cyclic.self === echoed.cyclic);
+      });
+    }
+  );
+
+  await t.step(
+    "connect Error - Should return an Err for results which cannot be cloned.",
+    async () => {
+      await withChannel(async (remote) => {
+        const error = (await remote.callback()).unwrapErr();
+        assertEquals(error.name, "DataCloneError");
+      });
+    }
+  );
+
+  await t.step(
+    "connect Error - Should return an Err for arguments which cannot be cloned.",
+    async () => {
+      await withChannel(async (remote) => {
+        const error = (await remote.echo(() => 1)).unwrapErr();
+        assertEquals(error.name, "DataCloneError");
+      });
+    }
+  );
+
+  await t.step(
+    "connect Error - Should settle pending calls when the signal aborts.",
+    async () => {
+      const controller = new AbortController();
+
+      await withChannel(async (remote) => {
+        const pending = remote.hang();
+        controller.abort("Closed");
+
+        const error = (await pending).unwrapErr();
+        assert(error instanceof AbortError);
+        assertEquals(error.reason, "Closed");
+        assert((await remote.divide(1, 1)).unwrapErr() instanceof AbortError);
+      }, controller.signal);
+    }
+  );
+
+  await t.step(
+    "expose Error - Should reply with an Err when arguments cannot be decoded.",
+    async () => {
+      const channel = new MessageChannel();
+      const broken = new ErrorRegistry().register({
+        name: "BrokenError",
+        prototype: undefined as unknown as Error,
+      });
+      expose(channel.port1, procedures, { registry: broken });
+
+      try {
+        const remote = connect<typeof procedures>(channel.port2);
+        const error = Object.assign(new Error("Test"), { name: "BrokenError" });
+
+        assert((await remote.echo(error)).unwrapErr() instanceof TypeError);
+      } finally {
+        channel.port1.close();
+        channel.port2.close();
+      }
+    }
+  );
+
+  await t.step(
+    "expose and connect - Should not listen once the signal has aborted.",
+    () => {
+      let listeners = 0;
+      const endpoint = {
+        postMessage() {},
+        addEventListener() {
+          listeners++;
+        },
+        removeEventListener() {},
+      };
+      const signal = AbortSignal.abort("Closed");
+
+      expose(endpoint, procedures, { signal })();
+      const remote = connect<typeof procedures>(endpoint, { signal });
+
+      assertEquals(listeners, 0);
+      return remote.divide(1, 1).then((res) => {
+        assert(res.unwrapErr() instanceof AbortError);
+      });
+    }
+  );
+});
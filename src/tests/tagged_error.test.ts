@@ -0,0 +1,111 @@
+import { Result, Ok, Err } from "../result.ts";
+import { defineError } from "../tagged_error.ts";
+import { ErrorRegistry } from "../json.ts";
+import {
+  assertEquals,
+  assert,
+  assertThrows,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+const NotFound = defineError("NotFound", (id: string) => ({
+  id,
+  message: `${id} not found`,
+}));
+const Timeout = defineError("Timeout", (ms: number, cause?: unknown) => ({
+  ms,
+  cause,
+}));
+const Unknown = defineError("Unknown");
+
+type NotFound = InstanceType<typeof NotFound>;
+type Timeout = InstanceType<typeof Timeout>;
+
+function load(input: number): Result<string, NotFound | Timeout> {
+  if (input === 0) return Err(new NotFound("User"));
+  if (input < 0) return Err(new Timeout(-input));
+
+  return Ok("Ferris");
+}
+
+Deno.test("defineError", async (t) => {
+  await t.step("defineError - Should create tagged Errors.", () => {
+    const err = new NotFound("User");
+
+    assert(err instanceof Error);
+    assert(err instanceof NotFound);
+    assertEquals(err._tag, "NotFound");
+    assertEquals(err.name, "NotFound");
+    assertEquals(err.message, "User not found");
+    assertEquals(err.id, "User");
+    assertEquals(NotFound.name, "NotFound");
+  });
+
+  await t.step("defineError - Should pass the cause to the Error.", () => {
+    const cause = new Error("Socket closed");
+    const err = new Timeout(100, cause);
+
+    assert(err.cause === cause);
+    assertEquals(err.message, "Timeout");
+    assertEquals(err.ms, 100);
+    assert(!Object.keys(err).includes("cause"));
+  });
+
+  await t.step("defineError - Should default to no payload.", () => {
+    const err = new Unknown();
+    assertEquals(err._tag, "Unknown");
+    assertEquals(err.message, "Unknown");
+  });
+
+  await t.step("defineError - Should round trip through JSON.", () => {
+    const registry = new ErrorRegistry().register(NotFound);
+    const res = Result.fromJSON(JSON.stringify(load(0)), registry);
+    const err = res.unwrapErr();
+
+    assert(err instanceof NotFound);
+    assertEquals(err.id, "User");
+  });
+
+  await t.step("matchErr - Should call the arm matching the tag.", () => {
+    const describe = (input: number) =>
+      load(input).matchErr({
+        NotFound: (e) => `Missing ${e.id}`,
+        Timeout: (e) => `Gave up after ${e.ms}ms`,
+      });
+
+    assertEquals(describe(1), "Ferris");
+    assertEquals(describe(0), "Missing User");
+    assertEquals(describe(-5), "Gave up after 5ms");
+  });
+
+  await t.step("matchErr - Should fall back to the catch-all.", () => {
+    const res = load(-5).matchErr({
+      NotFound: () => "Missing",
+      _: (e) => e.message,
+    });
+    assertEquals(res, "Timeout");
+  });
+
+  await t.step(
+    "matchErr - Should require a catch-all for untagged errors.",
+    () => {
+      const res: Result<string, NotFound | TypeError> = Err(
+        new TypeError("Test")
+      );
+      assertEquals(
+        res.matchErr({ NotFound: () => "Missing", _: (e) => e.message }),
+        "Test"
+      );
+
+      assertThrows(
+        // @ts-expect-error: The catch-all is missing.
+        () => res.matchErr({ NotFound: () => "Missing" }),
+        TypeError
+      );
+    }
+  );
+
+  await t.step("matchErr - Should require every tag.", () => {
+    // @ts-expect-error: The Timeout arm is missing.
+    assertThrows(() => load(-1).matchErr({ NotFound: () => "" }), TypeError);
+  });
+});
@@ -0,0 +1,122 @@
+import { Err, Ok, Result } from "../result.ts";
+import { None, Option, Some } from "../option.ts";
+import {
+  AssertionError,
+  assertErr,
+  assertNone,
+  assertOk,
+  assertResultEquals,
+  assertSome,
+  equal,
+  format,
+} from "../../testing.ts";
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+Deno.test("Testing", async (t) => {
+  await t.step("format - Should show the variant and value.", () => {
+    assertEquals(format(Ok(1)), "Ok(1)");
+    assertEquals(format(Err(new TypeError("bad"))), "Err(TypeError: bad)");
+    assertEquals(format(Some("x")), 'Some("x")');
+    assertEquals(format(None()), "None");
+    assertEquals(format(Some({ a: [1, 2n] })), "Some({ a: [1, 2n] })");
+  });
+
+  await t.step(
+    "equal - Should compare Options and Results structurally.",
+    () => {
+      assert(equal(Ok({ a: [1] }), Ok({ a: [1] })));
+      assert(equal(Err(new Error("x")), Err(new Error("x"))));
+      assert(equal(Some(Some(NaN)), Some(Some(NaN))));
+      assert(equal(None(), None()));
+      assert(equal(new Date(0), new Date(0)));
+
+      assert(!equal(Ok(1), new Result<number, number>(1, "Err")));
+      assert(!equal(Some(1), None()));
+      assert(!equal(Err(new Error("x")), Err(new TypeError("x"))));
+      assert(!equal({ a: 1 }, { a: 1, b: 2 }));
+      assert(!equal([1], { 0: 1 }));
+    }
+  );
+
+  await t.step("assertOk - Should pass an Ok and narrow it.", () => {
+    const res: Result<number, Error> = Ok(1);
+    assertOk(res);
+    assertEquals(res.value, 1);
+    assertOk(Ok<number[], Error>([1, 2]), [1, 2]);
+  });
+
+  await t.step("assertOk - Should fail with the variant and value.", () => {
+    assertThrows(
+      () => assertOk(Err(new RangeError("too big"))),
+      AssertionError,
+      "Expected Ok, got Err(RangeError: too big)"
+    );
+    assertThrows(
+      () => assertOk(Ok(1), 2, "parse"),
+      AssertionError,
+      "parse: Expected Ok(2), got Ok(1)"
+    );
+  });
+
+  await t.step("assertErr - Should check the class and message.", () => {
+    const res: Result<number, Error> = Err(new TypeError("bad input"));
+    assertErr(res, TypeError, "bad");
+    assertEquals(res.error.message, "bad input");
+
+    assertThrows(
+      () => assertErr(res, RangeError),
+      AssertionError,
+      "Expected Err to be an instance of RangeError, got Err(TypeError: bad input)"
+    );
+    assertThrows(
+      () => assertErr(res, TypeError, "good"),
+      AssertionError,
+      'Expected Err message to include "good", got Err(TypeError: bad input)'
+    );
+    assertThrows(
+      () => assertErr(Ok(1)),
+      AssertionError,
+      "Expected Err, got Ok(1)"
+    );
+  });
+
+  await t.step("assertSome - Should pass a Some and narrow it.", () => {
+    const opt: Option<string> = Some("x");
+    assertSome(opt, "x");
+    assertEquals(opt.value, "x");
+
+    assertThrows(
+      () => assertSome(None()),
+      AssertionError,
+      "Expected Some, got None"
+    );
+    assertThrows(
+      () => assertSome(Some("x"), "y"),
+      AssertionError,
+      'Expected Some("y"), got Some("x")'
+    );
+  });
+
+  await t.step("assertNone - Should fail with the value of a Some.", () => {
+    assertNone(None());
+    assertThrows(
+      () => assertNone(Some(1)),
+      AssertionError,
+      "Expected None, got Some(1)"
+    );
+  });
+
+  await t.step("assertResultEquals - Should compare variants.", () => {
+    assertResultEquals(Ok({ a: 1 }), Ok({ a: 1 }));
+    assertResultEquals(Some([1]), Some([1]));
+    assertThrows(
+      () => assertResultEquals(Ok(1), Err(new Error("x"))),
+      AssertionError,
+      "Expected Err(Error: x), got Ok(1)"
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { Result, Ok, Err } from "../result.ts";
+import { Validation, ValidationError } from "../validation.ts";
+import {
+  assertEquals,
+  assert,
+} from "https://deno.land/std@0.159.0/testing/asserts.ts";
+
+function required(input: string): Result<string, Error> {
+  if (input.length === 0) return Err("Required");
+
+  return Ok(input);
+}
+
+function maxLength(max: number) {
+  return (input: string): Result<string, Error> => {
+    if (input.length > max) return Err(`Longer than ${max}`);
+
+    return Ok(input);
+  };
+}
+
+function positive(input: number): Result<number, string> {
+  if (input <= 0) return new Result<number, string>("Not positive", "Err");
+
+  return Ok(input);
+}
+
+Deno.test("Validation", async (t) => {
+  await t.step("check - Should return the value if every check passes.", () => {
+    const res = Validation.check("Test", required, maxLength(8));
+    assertEquals(res.unwrap(), "Test");
+  });
+
+  await t.step("check Error - Should collect every failed check.", () => {
+    const res = Validation.check("", required, (input: string) =>
+      input.includes("@") ? Ok(input) : Err<string>("Missing @")
+    );
+    const error = res.unwrapErr();
+
+    assert(error instanceof ValidationError);
+    assert(error instanceof AggregateError);
+    assertEquals(
+      error.errors.map((e) => e.message),
+      ["Required", "Missing @"]
+    );
+    assertEquals(
+      error.issues.map((issue) => issue.path),
+      [[], []]
+    );
+  });
+
+  await t.step("struct - Should combine a record of Oks.", () => {
+    const res = Validation.struct({
+      name: Validation.check("Test", required),
+      age: positive(30),
+    });
+    assertEquals(res.unwrap(), { name: "Test", age: 30 });
+  });
+
+  await t.step("struct Error - Should keep the key of every Err.", () => {
+    const res = Validation.struct({
+      name: Validation.check("", required),
+      nickname: Validation.check("Too long", maxLength(3)),
+      title: Ok<string, Error>("Test"),
+    });
+    const error = res.unwrapErr();
+
+    assert(error instanceof ValidationError);
+    assertEquals(
+      error.issues.map(({ path, error }) => [path, error.message]),
+      [
+        [["name"], "Required"],
+        [["nickname"], "Longer than 3"],
+      ]
+    );
+  });
+
+  await t.step(
+    "struct Error - Should prefix the paths of nested issues.",
+    () => {
+      const address = Validation.struct({
+        city: Validation.check("", required),
+      });
+      const res = Validation.struct({ address });
+
+      assertEquals(
+        res.unwrapErr().issues.map((issue) => issue.path),
+        [["address", "city"]]
+      );
+    }
+  );
+
+  await t.step("all - Should keep the index of every Err.", () => {
+    const res = Validation.all([positive(1), positive(-1), positive(0)]);
+    const error = res.unwrapErr();
+
+    assert(Array.isArray(error));
+    assertEquals(error, [
+      { path: [1], error: "Not positive" },
+      { path: [2], error: "Not positive" },
+    ]);
+  });
+
+  await t.step("collect - Should collect any iterable.", () => {
+    const res = Validation.collect(new Set([positive(1), positive(2)]));
+    assertEquals(res.unwrap(), [1, 2]);
+  });
+
+  await t.step("at - Should prefix a path onto every failure.", () => {
+    const res = Validation.at(["items", 0], positive(0));
+    assertEquals(res.unwrapErr(), [
+      { path: ["items", 0], error: "Not positive" },
+    ]);
+  });
+
+  await t.step("check - Should run every check without stopping early.", () => {
+    let calls = 0;
+    const count = (input: string) => {
+      calls++;
+      return required(input);
+    };
+
+    Validation.check("", count, count, count);
+    assertEquals(calls, 3);
+  });
+});
@@ -0,0 +1,258 @@
+import { ErrOf, OkRecord, OkTuple, Result } from "./result.ts";
+
+/**
+ * The location of a failed check, as a list of keys and indices from the validated input.
+ */
+export type Path = ReadonlyArray<string | number>;
+
+/**
+ * A single failed check and where it happened.
+ */
+export interface Issue<E> {
+  readonly path: Path;
+  readonly error: E;
+}
+
+/**
+ * Every Error collected by a Validation, alongside the path each one was found at.
+ *
+ * @example
+ * ```ts
+ * const res = Validation.struct({ name: checkName(input.name), age: checkAge(input.age) });
+ *
+ * if (res.isErr()) {
+ *   res.error.issues // => [{ path: ["name"], error: Error("Name is required") }, ...]
+ * }
+ * ```
+ */
+export class ValidationError<E extends Error = Error> extends AggregateError {
+  declare errors: Array<E>;
+  readonly issues: ReadonlyArray<Issue<E>>;
+
+  /**
+   * A constructor for a ValidationError.
+   *
+   * @param {ReadonlyArray<Issue<E>>} issues The failed checks.
+   * @param {string} message An optional summary of the failure.
+   */
+  constructor(issues: ReadonlyArray<Issue<E>>, message = "Validation failed") {
+    super(
+      issues.map((issue) => issue.error),
+      message
+    );
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * How a Validation reports its failures: a ValidationError when every failure is an Error, otherwise an array of Issues.
+ *
+ * _Note: When the Err type may or may not be an Error, either form could be returned._
+ */
+export type Failure<E> = [E] extends [Error]
+  ? ValidationError<E>
+  : unknown extends E
+  ? ValidationError | Array<Issue<E>>
+  : [Extract<E, Error>] extends [never]
+  ? Array<Issue<E>>
+  : ValidationError<Extract<E, Error>> | Array<Issue<E>>;
+
+/**
+ * The error type of each Issue, unwrapping the failures of nested Validations.
+ */
+export type IssueOf<E> = E extends ValidationError<infer I>
+  ? I
+  : E extends Array<Issue<infer I>>
+  ? I
+  : E;
+
+/**
+ * Returns true if a value is an array of Issues, as produced by a nested Validation.
+ */
+function isIssues(value: unknown): value is Array<Issue<unknown>> {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (item) =>
+        !!item &&
+        typeof item === "object" &&
+        Array.isArray(item.path) &&
+        "error" in item
+    )
+  );
+}
+
+/**
+ * Convert an error into Issues at a path, prefixing the issues of nested Validations.
+ */
+function issuesOf<E>(error: unknown, path: Path): Array<Issue<E>> {
+  const nested =
+    error instanceof ValidationError
+      ? error.issues
+      : isIssues(error)
+      ? error
+      : undefined;
+
+  if (nested) {
+    return nested.map((issue) => ({
+      path: [...path, ...issue.path],
+      error: issue.error as E,
+    }));
+  }
+
+  return [{ path, error: error as E }];
+}
+
+/**
+ * Wrap Issues in the Failure matching their errors.
+ */
+function fail<E>(issues: Array<Issue<E>>): Failure<E> {
+  if (issues.every((issue) => issue.error instanceof Error)) {
+    return new ValidationError(issues as Array<Issue<Error>>) as Failure<E>;
+  }
+
+  return issues as Failure<E>;
+}
+
+/**
+ * Combine keyed Results, collecting every Err rather than stopping at the first.
+ */
+function combine<E>(
+  entries: Array<[string | number, Result<unknown, unknown>]>
+): Result<Array<[string | number, unknown]>, Failure<E>> {
+  const { ok, err } = Result.partition(
+    entries.map(([key, result]) =>
+      result
+        .map((value): [string | number, unknown] => [key, value])
+        .mapErr((error) => issuesOf<E>(error, [key]))
+    )
+  );
+
+  if (err.length) {
+    return new Result<Array<[string | number, unknown]>, Failure<E>>(
+      fail(err.flat()),
+      "Err"
+    );
+  }
+
+  return new Result<Array<[string | number, unknown]>, Failure<E>>(ok, "Ok");
+}
+
+/**
+ * Accumulating counterparts to the `Result` combinators.
+ *
+ * Where `Result.all` stops at the first Err, a Validation runs every check and
+ * returns either the combined value or every failure. Errors are collected into
+ * a ValidationError, other payloads into an array of Issues, and both keep the
+ * path of each failure so it can be mapped back to the input.
+ *
+ * @example
+ * ```ts
+ * const form = Validation.struct({
+ *   name: Validation.check(input.name, required, maxLength(64)),
+ *   email: Validation.check(input.email, required, isEmail),
+ * });
+ *
+ * form.match({
+ *   Ok: (form) => save(form),
+ *   Err: (e) => e.issues.forEach(({ path, error }) => show(path, error.message)),
+ * });
+ * ```
+ */
+export class Validation {
+  /**
+   * Run every check against a value, returning the value if they all pass.
+   *
+   * @param {T} value The value to validate.
+   * @param {Array<Function>} checks Functions returning an Err when the value is invalid.
+   * @returns {Result<T, Failure<IssueOf<E>>>}
+   *
+   * @example
+   * ```ts
+   * Validation.check("", required, minLength(3)) // => Err(ValidationError([...2 issues]))
+   * ```
+   */
+  static check<T, E>(
+    value: T,
+    ...checks: Array<(value: T) => Result<unknown, E>>
+  ): Result<T, Failure<IssueOf<E>>> {
+    const { err } = Result.partition(
+      checks.map((check) =>
+        check(value).mapErr((e) => issuesOf<IssueOf<E>>(e, []))
+      )
+    );
+
+    if (err.length) {
+      return new Result<T, Failure<IssueOf<E>>>(
+        fail<IssueOf<E>>(err.flat()),
+        "Err"
+      );
+    }
+
+    return new Result<T, Failure<IssueOf<E>>>(value, "Ok");
+  }
+
+  /**
+   * Prefix a path onto the failures of a Result.
+   *
+   * @param {Path} path The path of the validated value.
+   * @param {Result<T, E>} result The Result to prefix.
+   * @returns {Result<T, Failure<IssueOf<E>>>}
+   *
+   * @example
+   * ```ts
+   * Validation.at(["address", "city"], checkCity(city)) // => Err([{ path: ["address", "city"], ... }])
+   * ```
+   */
+  static at<T, E>(
+    path: Path,
+    result: Result<T, E>
+  ): Result<T, Failure<IssueOf<E>>> {
+    return result.mapErr((error) => fail(issuesOf<IssueOf<E>>(error, path)));
+  }
+
+  /**
+   * Combine a tuple of Results into a Result of a tuple, collecting every Err under its index.
+   *
+   * @param {[...R]} input A tuple of Results.
+   * @returns {Result<OkTuple<R>, Failure<IssueOf<ErrOf<R[number]>>>>}
+   */
+  static all<R extends readonly Result<unknown, unknown>[]>(
+    input: readonly [...R]
+  ): Result<OkTuple<R>, Failure<IssueOf<ErrOf<R[number]>>>> {
+    return Validation.collect(input) as unknown as Result<
+      OkTuple<R>,
+      Failure<IssueOf<ErrOf<R[number]>>>
+    >;
+  }
+
+  /**
+   * Collect an iterable of Results into a Result of an array, collecting every Err under its index.
+   *
+   * @param {Iterable<Result<T, E>>} input An iterable of Results.
+   * @returns {Result<Array<T>, Failure<IssueOf<E>>>}
+   */
+  static collect<T, E>(
+    input: Iterable<Result<T, E>>
+  ): Result<Array<T>, Failure<IssueOf<E>>> {
+    return combine<IssueOf<E>>(
+      Array.from(input).map((result, index) => [index, result])
+    ).map((entries) => entries.map(([, value]) => value as T));
+  }
+
+  /**
+   * Combine a record of Results into a Result of a record, collecting every Err under its key.
+   *
+   * @param {R} input A record of Results.
+   * @returns {Result<OkRecord<R>, Failure<IssueOf<ErrOf<R[keyof R]>>>>}
+   */
+  static struct<R extends Record<string, Result<unknown, unknown>>>(
+    input: R
+  ): Result<OkRecord<R>, Failure<IssueOf<ErrOf<R[keyof R]>>>> {
+    return combine<IssueOf<ErrOf<R[keyof R]>>>(Object.entries(input)).map(
+      (entries) => Object.fromEntries(entries) as OkRecord<R>
+    );
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * # `Optionals/testing`
+ *
+ * Assertions for Options and Results, whose failure messages show the variant and value.
+ *
+ * @example
+ * ```ts
+ * import { assertOk, assertErr } from "https://deno.land/x/optionals@v2.0.2/testing.ts";
+ *
+ * assertOk(parse("1"), 1);
+ * assertErr(parse("x"), SyntaxError, "Unexpected token");
+ * ```
+ *
+ * @module
+ */
+
+import { NoneOption, Option, SomeOption } from "./src/option.ts";
+import { ErrResult, OkResult, Result } from "./src/result.ts";
+import { equal } from "./src/equality.ts";
+import { format } from "./src/inspect.ts";
+import {
+  disableMustUse,
+  enableMustUse,
+  isMustUseEnabled,
+  UnhandledErr,
+  unhandledErrs,
+} from "./src/must_use.ts";
+
+export { equal, format };
+
+/**
+ * Thrown when an assertion fails.
+ */
+export class AssertionError extends Error {
+  /**
+   * A constructor for an AssertionError.
+   *
+   * @param {string} message A description of the failure.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "AssertionError";
+  }
+}
+
+/**
+ * Throw an AssertionError, prefixed with the caller's message.
+ */
+function fail(message: string, msg?: string): never {
+  throw new AssertionError(msg ? `${msg}: ${message}` : message);
+}
+
+/**
+ * Assert that a Result is Ok, and optionally that it contains an expected value.
+ *
+ * @param {Result<T, E>} actual The Result to check.
+ * @param {T} expected An optional value the Ok must be structurally equal to.
+ * @param {string} msg An optional message to prefix failures with.
+ */
+export function assertOk<T, E>(
+  actual: Result<T, E>,
+  ...[expected, msg]: [] | [expected: T, msg?: string]
+): asserts actual is OkResult<T, E> {
+  if (!actual.isOk()) {
+    fail(`Expected Ok, got ${format(actual)}`, msg);
+  }
+
+  if (arguments.length > 1 && !equal(actual.unwrap(), expected)) {
+    fail(`Expected Ok(${format(expected)}), got ${format(actual)}`, msg);
+  }
+}
+
+/**
+ * Assert that a Result is Err, and optionally that it contains an instance of an Error class with a message including some text.
+ *
+ * @param {Result<T, E>} actual The Result to check.
+ * @param {Function} ErrorClass An optional class the Err must be an instance of.
+ * @param {string} msgIncludes Optional text the message of the Err must include.
+ * @param {string} msg An optional message to prefix failures with.
+ */
+export function assertErr<T, E>(
+  actual: Result<T, E>,
+  ErrorClass?: abstract new (...args: never[]) => unknown,
+  msgIncludes?: string,
+  msg?: string
+): asserts actual is ErrResult<E, T> {
+  if (!actual.isErr()) {
+    fail(`Expected Err, got ${format(actual)}`, msg);
+  }
+
+  const error = actual.unwrapErr();
+
+  if (ErrorClass && !(error instanceof ErrorClass)) {
+    fail(
+      `Expected Err to be an instance of ${ErrorClass.name}, got ${format(
+        actual
+      )}`,
+      msg
+    );
+  }
+
+  if (msgIncludes !== undefined) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (!message.includes(msgIncludes)) {
+      fail(
+        `Expected Err message to include ${format(msgIncludes)}, got ${format(
+          actual
+        )}`,
+        msg
+      );
+    }
+  }
+}
+
+/**
+ * Assert that an Option is Some, and optionally that it contains an expected value.
+ *
+ * @param {Option<T>} actual The Option to check.
+ * @param {T} expected An optional value the Some must be structurally equal to.
+ * @param {string} msg An optional message to prefix failures with.
+ */
+export function assertSome<T>(
+  actual: Option<T>,
+  ...[expected, msg]: [] | [expected: T, msg?: string]
+): asserts actual is SomeOption<T> {
+  if (!actual.isSome()) {
+    fail(`Expected Some, got ${format(actual)}`, msg);
+  }
+
+  if (arguments.length > 1 && !equal(actual.unwrap(), expected)) {
+    fail(`Expected Some(${format(expected)}), got ${format(actual)}`, msg);
+  }
+}
+
+/**
+ * Assert that an Option is None.
+ *
+ * @param {Option<T>} actual The Option to check.
+ * @param {string} msg An optional message to prefix failures with.
+ */
+export function assertNone<T>(
+  actual: Option<T>,
+  msg?: string
+): asserts actual is NoneOption<T> {
+  if (!actual.isNone()) {
+    fail(`Expected None, got ${format(actual)}`, msg);
+  }
+}
+
+/**
+ * Assert that two Results, or two Options, have the same variant and structurally equal contents.
+ *
+ * @param {Result<T, E> | Option<T>} actual The value to check.
+ * @param {Result<T, E> | Option<T>} expected The value it must equal.
+ * @param {string} msg An optional message to prefix failures with.
+ */
+export function assertResultEquals<T, E>(
+  actual: Result<T, E> | Option<T>,
+  expected: Result<T, E> | Option<T>,
+  msg?: string
+): void {
+  if (!equal(actual, expected)) {
+    fail(`Expected ${format(expected)}, got ${format(actual)}`, msg);
+  }
+}
+
+/**
+ * Assert that every Err created while running a function is handled by the time it finishes.
+ *
+ * _Note: Tracking is enabled while the function runs if `Result.enableMustUse` was not called already._
+ * @param {Function} fn The function to run, which may be asynchronous.
+ * @param {string} msg An optional message to prefix failures with.
+ * @example
+ * await assertNoUnhandledResults(() => {
+ *   parse("x").unwrapOr(0);
+ * });
+ */
+export async function assertNoUnhandledResults(
+  fn: () => unknown,
+  msg?: string
+): Promise<void> {
+  const enabled = isMustUseEnabled();
+  if (!enabled) enableMustUse();
+
+  const before = new Set(unhandledErrs());
+  let leaked: Array<UnhandledErr>;
+
+  try {
+    await fn();
+    leaked = unhandledErrs().filter((entry) => !before.has(entry));
+  } finally {
+    if (!enabled) disableMustUse();
+  }
+
+  if (leaked.length > 0) {
+    const details = leaked
+      .map(({ error, stack }) => `${format(error)}\n${stack}`)
+      .join("\n\n");
+    fail(`${leaked.length} unhandled Err(s) leaked:\n\n${details}`, msg);
+  }
+}